@@ -10,6 +10,7 @@ export default tseslint.config(
       'dist',
       'node_modules',
       'generated_test_*.spec.ts',
+      'generated_pom_*',
       'test-results',
       'playwright-report',
     ],
@@ -27,6 +28,8 @@ export default tseslint.config(
     rules: {
       ...playwright.configs['flat/recommended'].rules,
       'playwright/no-networkidle': 'off',
+      // 環境に応じた条件付きの skip (ブラウザ未インストールなど) は許可する
+      'playwright/no-skipped-test': ['warn', { allowConditional: true }],
     },
   },
 
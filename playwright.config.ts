@@ -0,0 +1,6 @@
+import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  // 生成された spec (generated_test_*.spec.ts など) を拾わないよう、ユニットテストのディレクトリに限定する
+  testDir: './tests',
+});
@@ -4,10 +4,31 @@
  */
 import { Page, test } from '@playwright/test';
 import { FlashLoop } from './core/loop';
+import { FlashLoopHooks } from './core/hooks';
 import { ConsoleLogger } from './tools/logger';
+import {
+  HarOptions,
+  LLMOptions,
+  ObservationMode,
+  SafetyPolicyOptions,
+  SecretOptions,
+  StorageStateOptions,
+} from './types';
 
 export interface AgentOptions {
   maxSteps?: number;
+  llm?: LLMOptions; // 未指定時は環境変数 (LLM_PROVIDER 等) から解決
+  secrets?: SecretOptions; // {{secret:NAME}} の解決元 (未指定時は環境変数のみ)
+  observationMode?: ObservationMode; // 'dom' (デフォルト) または 'aria'
+  vision?: boolean; // マルチモーダルモデルが必要
+  incrementalObservation?: boolean; // 2回目以降の観測を差分で送る
+  stateTokenBudget?: number; // 要素一覧のトークン予算
+  hooks?: FlashLoopHooks | FlashLoopHooks[]; // ライフサイクルフック
+  policy?: SafetyPolicyOptions; // 安全ポリシー (confirm ルールは確認手段が無いためブロック扱い)
+  // load は実行中のコンテキストに適用する (テスト全体で使う場合は test.use({ storageState }) を推奨)
+  storageState?: StorageStateOptions;
+  har?: HarOptions; // HAR はテスト終了時 (コンテキストのクローズ時) に書き出される
+  failOnPageError?: boolean; // 生成コードに未捕捉のページエラーの検証を含める
 }
 
 /**
@@ -18,6 +39,7 @@ export interface AgentOptions {
  * @param goal 達成したいゴール（自然言語）
  * @param options オプション（最大ステップ数など）
  * @returns 生成されたPlaywrightコード
+ * @throws ゴールを達成できなかった場合 (最大ステップ数到達・リトライ不能なエラー)
  */
 export async function agent(page: Page, goal: string, options: AgentOptions = {}): Promise<string> {
   // 1. CIガード
@@ -47,24 +69,42 @@ export async function agent(page: Page, goal: string, options: AgentOptions = {}
     const loop = new FlashLoop({
       page,
       maxSteps: options.maxSteps ?? 15, // undefined/null の場合にデフォルト値15を使用
+      llm: options.llm,
+      secrets: options.secrets,
+      observationMode: options.observationMode,
+      vision: options.vision,
+      incrementalObservation: options.incrementalObservation,
+      stateTokenBudget: options.stateTokenBudget,
+      hooks: options.hooks,
+      policy: options.policy,
+      storageState: options.storageState,
+      har: options.har,
+      failOnPageError: options.failOnPageError,
       logger: new ConsoleLogger(), // テスト出力に適したロガー
     });
 
     try {
       // 4. 実行
-      const generatedCode = await loop.start(goal);
+      const result = await loop.start(goal);
 
-      // 5. 結果をレポートに添付
+      // 5. 結果をレポートに添付 (失敗時も調査用に残す)
       await test.info().attach('ai-generated-code.ts', {
-        body: generatedCode,
+        body: result.code,
         contentType: 'text/typescript',
       });
 
       console.log(`\n--- 🤖 AI Generated Code for "${goal}" ---`);
-      console.log(generatedCode);
+      console.log(result.code);
       console.log('------------------------------------------\n');
 
-      return generatedCode;
+      // 6. ゴール未達の場合はテストを失敗させる
+      if (result.status !== 'success') {
+        throw new Error(
+          `[Flash-Loop] Goal not achieved (${result.status} after ${result.stepCount} step(s)): ${result.reason}`
+        );
+      }
+
+      return result.code;
     } catch (error) {
       console.error('AI Agent Error:', error);
       throw error;
@@ -15,3 +15,24 @@ export const AI_TIMEOUT_MS = 60000;
  * DOM安定化待ちのタイムアウト設定 (ms)
  */
 export const DOM_WAIT_TIMEOUT_MS = 2000;
+
+/**
+ * 1回の思考サイクルで実行するバッチアクションの上限数
+ */
+export const MAX_BATCH_ACTIONS = 10;
+
+/**
+ * getByTestId が参照するデフォルトの属性名
+ */
+export const DEFAULT_TEST_ID_ATTRIBUTE = 'data-testid';
+
+/**
+ * シークレットのプレースホルダ ({{secret:NAME}})
+ * NAME は生成コードで環境変数名として使われるため、識別子として有効な文字のみ許可する
+ */
+export const SECRET_PLACEHOLDER_PATTERN = /\{\{secret:([A-Za-z_][A-Za-z0-9_]*)\}\}/;
+
+/**
+ * バッチ実行で生成 spec とレポートを出力するデフォルトのディレクトリ
+ */
+export const DEFAULT_BATCH_OUT_DIR = 'flash-loop-batch';
@@ -0,0 +1,111 @@
+/**
+ * src/core/aria-snapshot.ts
+ * Playwright の ARIA スナップショット (YAML) を木構造に変換する
+ */
+
+export interface AriaNode {
+  role: string; // 'text' は静的テキスト
+  name?: string;
+  states: string[]; // 例: 'checked', 'disabled', 'level=2'
+  text?: string; // インラインのテキスト内容 (textbox の値など)
+  depth: number;
+  parent: AriaNode | null;
+  children: AriaNode[];
+}
+
+const KEY_PATTERN = /^([a-z]+)(?: "((?:[^"\\]|\\.)*)")?((?: \[[^\]]+\])*)$/;
+
+/**
+ * ariaSnapshot() の出力を解析する (トップレベルのノード一覧を返す)
+ */
+export function parseAriaSnapshot(snapshot: string): AriaNode[] {
+  const roots: AriaNode[] = [];
+  const stack: AriaNode[] = [];
+
+  for (const rawLine of snapshot.split('\n')) {
+    const match = rawLine.match(/^(\s*)- (.*)$/);
+    if (!match) continue;
+
+    const depth = match[1].length / 2;
+    const { key, value } = splitEntry(match[2]);
+    // /url などのプロパティ行は対象外
+    if (key.startsWith('/')) continue;
+
+    while (stack.length > depth) stack.pop();
+    const parent = stack[stack.length - 1] ?? null;
+
+    const node = parseKey(key, value, depth, parent);
+    if (!node) continue;
+
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  }
+
+  return roots;
+}
+
+/**
+ * 「key: value」を分割する (key は YAML のシングルクォートでエスケープされている場合がある)
+ */
+function splitEntry(entry: string): { key: string; value?: string } {
+  let key: string;
+  let rest: string;
+
+  if (entry.startsWith("'")) {
+    let end = 1;
+    while (end < entry.length) {
+      if (entry[end] === "'" && entry[end + 1] === "'") end += 2;
+      else if (entry[end] === "'") break;
+      else end++;
+    }
+    key = entry.slice(1, end).replace(/''/g, "'");
+    rest = entry.slice(end + 1);
+  } else {
+    const colon = entry.search(/:(\s|$)/);
+    key = colon < 0 ? entry : entry.slice(0, colon);
+    rest = colon < 0 ? '' : entry.slice(colon);
+  }
+
+  const value = rest.replace(/^:\s*/, '');
+  return { key, value: value ? unquoteValue(value) : undefined };
+}
+
+function unquoteValue(value: string): string {
+  if (!value.startsWith('"')) return value;
+  try {
+    return JSON.parse(value.replace(/\\x([0-9a-f]{2})/gi, '\\u00$1')) as string;
+  } catch {
+    return value.slice(1, -1);
+  }
+}
+
+function parseKey(
+  key: string,
+  value: string | undefined,
+  depth: number,
+  parent: AriaNode | null
+): AriaNode | null {
+  const node: AriaNode = { role: '', states: [], depth, parent, children: [] };
+
+  if (key === 'text') {
+    node.role = 'text';
+    node.text = value;
+    return node;
+  }
+
+  const match = key.match(KEY_PATTERN);
+  if (!match) return null;
+
+  node.role = match[1];
+  if (match[2] !== undefined) {
+    try {
+      node.name = JSON.parse(`"${match[2]}"`) as string;
+    } catch {
+      node.name = match[2];
+    }
+  }
+  node.states = [...match[3].matchAll(/\[([^\]]+)\]/g)].map((m) => m[1]);
+  node.text = value;
+  return node;
+}
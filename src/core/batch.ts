@@ -0,0 +1,324 @@
+/**
+ * src/core/batch.ts
+ * ゴール定義ファイル (YAML / JSON) の複数ゴールを、ブラウザを共有しつつ別コンテキストで並列実行する
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as yaml from 'js-yaml';
+import { Browser } from 'playwright';
+import { FlashLoop } from './loop';
+import { resolveBrowserSetup } from './emulation';
+import { ILogger, ConsoleLogger, PrefixedLogger } from '../tools/logger';
+import { SuiteGenerator, SuiteTestGenerator } from '../tools/suite-generator';
+import {
+  BatchFile,
+  BatchFileSchema,
+  BatchGoal,
+  BrowserName,
+  CodegenTarget,
+  LLMOptions,
+  RunStatus,
+  SafetyPolicyOptions,
+  SecretOptions,
+  SelectorOptions,
+} from '../types';
+import { DEFAULT_BATCH_OUT_DIR } from '../constants';
+
+export interface BatchOptions {
+  concurrency?: number; // 同時実行数 (ファイルの concurrency より優先。デフォルト: 1)
+  headless?: boolean;
+  outDir?: string; // 生成 spec の出力先 (デフォルト: flash-loop-batch)
+  codegenTarget?: CodegenTarget; // ゴールごとの spec の出力形式
+  suiteFile?: string; // 指定時、すべてのゴールを1つの suite (TypeScript) に出力する (outDir からの相対パス)
+  appendToSuite?: boolean; // suite ファイルが既にある場合、上書きせずにテストを追加する
+  llm?: LLMOptions;
+  selectors?: SelectorOptions;
+  secrets?: SecretOptions;
+  policy?: SafetyPolicyOptions;
+  logger?: ILogger; // バッチ全体の進捗表示
+}
+
+/**
+ * 1ゴール分の結果
+ * status の error は、ゴールの実行が例外で中断したことを表す (ブラウザの起動失敗なども含む)
+ */
+export interface BatchGoalResult {
+  name: string;
+  goal: string;
+  status: RunStatus;
+  reason: string;
+  stepCount: number;
+  durationMs: number;
+  outputPath?: string;
+  finalUrl?: string;
+}
+
+export interface BatchSummary {
+  file: string; // ゴール定義ファイル
+  startedAt: string;
+  durationMs: number;
+  total: number;
+  passed: number;
+  failed: number; // ゴール未達 (max_steps / stopped)
+  errors: number;
+  suitePath?: string;
+  results: BatchGoalResult[];
+}
+
+/**
+ * ゴールごとの実行単位 (defaults を適用済み)
+ */
+interface BatchEntry {
+  name: string;
+  goal: BatchGoal;
+  loop: FlashLoop;
+  suiteTest?: SuiteTestGenerator;
+}
+
+/**
+ * ゴール定義ファイルを読み込み、検証する (拡張子が .json 以外は YAML として解釈する)
+ */
+export async function loadBatchFile(filePath: string): Promise<BatchFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Failed to read batch file: ${filePath}`, { cause: error });
+  }
+
+  try {
+    const data = path.extname(filePath) === '.json' ? JSON.parse(content) : yaml.load(content);
+    return BatchFileSchema.parse(data);
+  } catch (error) {
+    throw new Error(`Invalid batch file: ${filePath}`, { cause: error });
+  }
+}
+
+export class BatchRunner {
+  private options: BatchOptions;
+  private logger: ILogger;
+  private browsers = new Map<BrowserName, Browser>();
+
+  constructor(options: BatchOptions = {}) {
+    this.options = options;
+    this.logger = options.logger || new ConsoleLogger();
+  }
+
+  async run(filePath: string): Promise<BatchSummary> {
+    const batch = await loadBatchFile(filePath);
+    const startedAt = new Date();
+    if (this.options.suiteFile && (this.options.codegenTarget ?? 'typescript') !== 'typescript') {
+      throw new Error('A combined suite can only be generated for the typescript target.');
+    }
+    const outDir = path.resolve(this.options.outDir ?? DEFAULT_BATCH_OUT_DIR);
+    await fs.mkdir(outDir, { recursive: true });
+
+    const suite = this.options.suiteFile
+      ? new SuiteGenerator(path.join(outDir, this.options.suiteFile), {
+          append: this.options.appendToSuite,
+        })
+      : null;
+
+    const concurrency = this.options.concurrency ?? batch.concurrency ?? 1;
+    const goals = normalizeGoals(batch);
+    this.logger.info(
+      `Running ${goals.length} goal(s) from ${filePath} (concurrency: ${concurrency})`
+    );
+
+    try {
+      // 設定の誤り (未知のデバイス・suite と両立しない設定など) は、実行を始める前にまとめて検出する
+      const entries: BatchEntry[] = [];
+      for (const { name, slug, goal } of goals) {
+        try {
+          entries.push(await this.createEntry(name, slug, goal, outDir, suite));
+        } catch (error) {
+          throw new Error(`Invalid goal "${name}": ${(error as Error).message}`, { cause: error });
+        }
+      }
+
+      const results: BatchGoalResult[] = new Array(entries.length);
+      let next = 0;
+      const worker = async () => {
+        while (next < entries.length) {
+          const index = next++;
+          results[index] = await this.runEntry(entries[index]);
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, entries.length) }, () => worker())
+      );
+
+      await suite?.write();
+
+      return {
+        file: filePath,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        total: results.length,
+        passed: results.filter((r) => r.status === 'success').length,
+        failed: results.filter((r) => r.status === 'max_steps' || r.status === 'stopped').length,
+        errors: results.filter((r) => r.status === 'error').length,
+        suitePath: suite?.getOutput(),
+        results,
+      };
+    } finally {
+      await this.cleanup();
+    }
+  }
+
+  /**
+   * ゴールの設定から FlashLoop を構築する (エンジンごとのブラウザは初回に起動して共有する)
+   */
+  private async createEntry(
+    name: string,
+    slug: string,
+    goal: BatchGoal,
+    outDir: string,
+    suite: SuiteGenerator | null
+  ): Promise<BatchEntry> {
+    const { browserName, browserType } = resolveBrowserSetup(goal.browser, goal);
+    let browser = this.browsers.get(browserName);
+    if (!browser) {
+      browser = await browserType.launch({ headless: this.options.headless });
+      this.browsers.set(browserName, browser);
+    }
+
+    let suiteTest: SuiteTestGenerator | undefined;
+    const loop = new FlashLoop({
+      startUrl: goal.url,
+      headless: this.options.headless,
+      maxSteps: goal.maxSteps,
+      browser: goal.browser,
+      device: goal.device,
+      viewport: goal.viewport,
+      locale: goal.locale,
+      timezoneId: goal.timezoneId,
+      geolocation: goal.geolocation,
+      colorScheme: goal.colorScheme,
+      llm: this.options.llm,
+      codegenTarget: this.options.codegenTarget,
+      outputPath: path.join(outDir, outputFileName(slug, this.options.codegenTarget)),
+      generatorFactory: suite
+        ? (options) => (suiteTest = suite.createTest(name, options))
+        : undefined,
+      sharedBrowser: browser,
+      selectors: this.options.selectors,
+      observationMode: goal.observe,
+      vision: goal.vision,
+      incrementalObservation: goal.incremental,
+      stateTokenBudget: goal.tokenBudget,
+      secrets: this.options.secrets,
+      storageState:
+        goal.storageState || goal.saveStorageState
+          ? { load: goal.storageState, save: goal.saveStorageState }
+          : undefined,
+      failOnPageError: goal.failOnPageError,
+      policy: this.options.policy,
+      logger: new PrefixedLogger(name),
+    });
+
+    return { name, goal, loop, suiteTest };
+  }
+
+  private async runEntry(entry: BatchEntry): Promise<BatchGoalResult> {
+    const startedAt = Date.now();
+    let result: BatchGoalResult;
+
+    try {
+      const run = await entry.loop.start(entry.goal.goal);
+      result = {
+        name: entry.name,
+        goal: entry.goal.goal,
+        status: run.status,
+        reason: run.reason,
+        stepCount: run.stepCount,
+        durationMs: Date.now() - startedAt,
+        outputPath: run.outputPath,
+        finalUrl: run.finalUrl,
+      };
+    } catch (error) {
+      await entry.loop.cleanup();
+      result = {
+        name: entry.name,
+        goal: entry.goal.goal,
+        status: 'error',
+        reason: error instanceof Error ? error.message : String(error),
+        stepCount: 0,
+        durationMs: Date.now() - startedAt,
+      };
+    }
+
+    if (result.status !== 'success') {
+      entry.suiteTest?.markAsFixme(`${result.status}: ${result.reason}`);
+      this.logger.fail(`${entry.name}: ${result.status} (${result.reason})`);
+    } else {
+      this.logger.success(`${entry.name}: ${result.stepCount} step(s)`);
+    }
+    return result;
+  }
+
+  /**
+   * 起動したブラウザをすべて閉じる
+   */
+  async cleanup(): Promise<void> {
+    for (const browser of this.browsers.values()) {
+      try {
+        await browser.close();
+      } catch {
+        // すでに閉じられている場合は無視
+      }
+    }
+    this.browsers.clear();
+  }
+}
+
+/**
+ * defaults を適用し、重複しないテスト名と出力ファイル名を割り当てる
+ */
+function normalizeGoals(batch: BatchFile): Array<{ name: string; slug: string; goal: BatchGoal }> {
+  const names = new Set<string>();
+  const slugs = new Set<string>();
+
+  return batch.goals.map((entry) => {
+    const goal: BatchGoal = {
+      ...batch.defaults,
+      ...(typeof entry === 'string' ? { goal: entry } : entry),
+    };
+
+    const baseName = goal.name ?? goal.goal.replace(/\s+/g, ' ').slice(0, 80);
+    const name = uniqueName(baseName, names, (n) => `${baseName} (${n})`);
+    const baseSlug = slugify(name);
+    const slug = uniqueName(baseSlug, slugs, (n) => `${baseSlug}-${n}`);
+    return { name, slug, goal };
+  });
+}
+
+function uniqueName(base: string, used: Set<string>, withSuffix: (n: number) => string): string {
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = withSuffix(n);
+  used.add(name);
+  return name;
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'goal'
+  );
+}
+
+function outputFileName(slug: string, target: CodegenTarget = 'typescript'): string {
+  switch (target) {
+    case 'pom':
+      return slug; // ディレクトリ
+    case 'python':
+      return `test_${slug.replace(/-/g, '_')}.py`;
+    case 'json':
+      return `${slug}.steps.json`;
+    default:
+      return `${slug}.spec.ts`;
+  }
+}
@@ -1,18 +1,44 @@
 /**
  * src/core/brain.ts
  */
-import { cerebras } from '@ai-sdk/cerebras';
-import { generateObject } from 'ai';
-import { ActionSchema, ActionPlan } from '../types';
+import { generateObject, LanguageModel } from 'ai';
+import { z } from 'zod';
+import { ActionSchema, ActionPlan, LLMOptions } from '../types';
+import { createLanguageModel, resolveLLMConfig } from './llm-provider';
 
-export class Brain {
-  private model = cerebras(process.env.LLM_MODEL_NAME || 'llama3.1-70b');
+/**
+ * 次のアクションを決定する思考エンジンの共通インターフェース
+ * (LLM呼び出し / カセットの記録・再生などを差し替え可能にする)
+ */
+export interface IBrain {
+  think(
+    goal: string,
+    state: string,
+    history: string[],
+    lastError?: string,
+    screenshot?: Uint8Array // vision モード時の Set-of-Marks 画像 (PNG)
+  ): Promise<ActionPlan>;
+
+  /**
+   * ページから読み取ったテキストを、スキーマに沿った構造化データに変換する
+   * @param previous 以前の extract の結果 (ページ送りなどで複数回読み取る場合に統合する)
+   */
+  extract(goal: string, content: string, schema: z.ZodType, previous?: unknown): Promise<unknown>;
+}
+
+export class Brain implements IBrain {
+  private model: LanguageModel;
+
+  constructor(llmOptions: LLMOptions = {}) {
+    this.model = createLanguageModel(resolveLLMConfig(llmOptions));
+  }
 
   async think(
     goal: string,
     state: string,
     history: string[],
-    lastError?: string
+    lastError?: string,
+    screenshot?: Uint8Array
   ): Promise<ActionPlan> {
     const systemPrompt = `
 You are FlashLoop, a resilient browser automation agent.
@@ -20,9 +46,15 @@ Your goal is to achieve the user's objective by operating the browser.
 
 # STRATEGY
 1. **Context**: Check the "Active Tab". If the goal requires a new tab or popup, look for it.
-2. **Visibility**: If you cannot see the target, it might be off-screen. Use 'scroll'.
-3. **Wait**: If the page is loading or you expect a change, use 'wait_for_element' or check 'assert_visible'.
-4. **Error Recovery**: If "Previous Error" exists, analyze the advice and try a DIFFERENT approach (e.g., scroll first, close modal, use different element).
+2. **Visibility**: If you cannot see the target, it might be off-screen. Use 'scroll'. If the element list says some elements are collapsed, use 'more_elements' to see the next page.
+3. **Extract**: If the goal asks to collect or report data, use 'extract' with 'targetId' set to the container (table, list, section) that holds it, or without 'targetId' to read the whole page. Extract again after paging to add more items.
+4. **Wait**: If the page is loading or you expect a change, use 'wait_for_element' or check 'assert_visible'.
+5. **Error Recovery**: If "Previous Error" exists, analyze the advice and try a DIFFERENT approach (e.g., scroll first, close modal, use different element).
+6. **Batching**: When several actions on the current page are obvious (e.g., fill multiple form fields, then click submit), put the first action in the main fields and the rest, in order, in 'followUpActions'. Only use IDs from the Current State. The batch stops automatically on navigation, dialogs or stale elements, and you will observe again.
+7. **Incremental State**: The Current State may list only the changes since the previous observation ('+' added, '~' changed, '-' removed). Elements under "Unchanged" are still on the page with the same IDs.
+8. **Screenshot**: If a screenshot is attached, each numbered box marks an element; use the "Screenshot Marks" list to map the number to its Virtual ID. Always answer with the Virtual ID, never the number.
+9. **Network**: "Recent Network Activity" lists the API calls since the previous observation. To check that an API call succeeded (e.g., a form submission), use 'assert_response' with 'response.urlIncludes' (and 'method', 'status' or 'bodyIncludes' as needed) and 'targetId' set to the element whose click triggers the call; it replaces the separate click. Use 'wait_for_response' to only wait for the call.
+10. **Secrets**: Values like \`{{secret:NAME}}\` in the goal are placeholders for credentials. Copy them verbatim into 'value' (e.g., for 'fill'); they are substituted at execution time. Never guess or invent the real value.
 
 # SCHEMA
 Return a JSON object matching ActionSchema.
@@ -44,10 +76,49 @@ Next Action:
       model: this.model,
       schema: ActionSchema,
       system: systemPrompt,
-      messages: [{ role: 'user', content: userContent }],
+      messages: [
+        {
+          role: 'user',
+          content: screenshot
+            ? [
+                { type: 'text', text: userContent },
+                { type: 'image', image: screenshot, mediaType: 'image/png' },
+              ]
+            : userContent,
+        },
+      ],
       temperature: 0,
     });
 
     return object;
   }
+
+  async extract(
+    goal: string,
+    content: string,
+    schema: z.ZodType,
+    previous?: unknown
+  ): Promise<unknown> {
+    const { object } = await generateObject({
+      model: this.model,
+      // 配列などオブジェクト以外のスキーマも扱えるよう data でラップする
+      schema: z.object({ data: schema }),
+      system:
+        'You extract structured data from web page content. Use only information present in the content; never invent values. Return the result in "data".',
+      messages: [
+        {
+          role: 'user',
+          content: `
+Goal: ${goal}
+${previous !== undefined ? `\nPreviously extracted data (merge the new content into it, without duplicates):\n${JSON.stringify(previous)}\n` : ''}
+Page Content:
+${content}
+`,
+        },
+      ],
+      temperature: 0,
+    });
+
+    return object.data;
+  }
 }
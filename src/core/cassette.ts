@@ -0,0 +1,241 @@
+/**
+ * src/core/cassette.ts
+ * Brainの意思決定を「カセット」ファイルに記録し、オフラインで再生する
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { ActionPlan, ActionSchema } from '../types';
+import { ILogger } from '../tools/logger';
+import { IBrain } from './brain';
+
+const CASSETTE_VERSION = 1;
+
+/**
+ * Brain.think / Brain.extract 1回分の入出力
+ * extract の場合、input.state には読み取ったページのテキストを記録する
+ */
+export interface CassetteEntry {
+  step: number;
+  kind?: 'think' | 'extract'; // 省略時は think
+  input: {
+    goal: string;
+    state: string;
+    history: string[];
+    lastError?: string;
+  };
+  plan?: ActionPlan;
+  data?: unknown; // extract の結果
+}
+
+export interface CassetteFile {
+  version: number;
+  recordedAt: string;
+  entries: CassetteEntry[];
+}
+
+/**
+ * 内部のBrainをラップし、すべての think 呼び出しをカセットに記録する
+ */
+export class RecordingBrain implements IBrain {
+  private inner: IBrain;
+  private filePath: string;
+  private entries: CassetteEntry[] = [];
+  private readonly recordedAt = new Date().toISOString();
+
+  constructor(inner: IBrain, filePath: string) {
+    this.inner = inner;
+    this.filePath = filePath;
+  }
+
+  async think(
+    goal: string,
+    state: string,
+    history: string[],
+    lastError?: string,
+    screenshot?: Uint8Array
+  ): Promise<ActionPlan> {
+    // 画像はカセットに保存しない (マーク一覧は state に含まれる)
+    const plan = await this.inner.think(goal, state, history, lastError, screenshot);
+
+    this.entries.push({
+      step: this.entries.length + 1,
+      input: { goal, state, history: [...history], lastError },
+      plan,
+    });
+
+    // 途中でクラッシュしても記録が残るよう、毎回ファイル全体を書き出す
+    await this.save();
+    return plan;
+  }
+
+  async extract(
+    goal: string,
+    content: string,
+    schema: z.ZodType,
+    previous?: unknown
+  ): Promise<unknown> {
+    const data = await this.inner.extract(goal, content, schema, previous);
+
+    this.entries.push({
+      step: this.entries.length + 1,
+      kind: 'extract',
+      input: { goal, state: content, history: [] },
+      data,
+    });
+
+    await this.save();
+    return data;
+  }
+
+  private async save(): Promise<void> {
+    const cassette: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recordedAt: this.recordedAt,
+      entries: this.entries,
+    };
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(cassette, null, 2), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to write cassette file: ${error}`, { cause: error });
+    }
+  }
+}
+
+/**
+ * カセットに記録された ActionPlan を順に返す (LLMは呼び出さない)
+ * 現在の入力が記録時と異なる場合はドリフトとして報告する
+ */
+export class ReplayBrain implements IBrain {
+  private filePath: string;
+  private logger: ILogger;
+  private strict: boolean;
+  private entries: CassetteEntry[] | null = null;
+  private cursor = 0;
+
+  constructor(filePath: string, logger: ILogger, strict = false) {
+    this.filePath = filePath;
+    this.logger = logger;
+    this.strict = strict;
+  }
+
+  async think(
+    goal: string,
+    state: string,
+    history: string[],
+    lastError?: string
+  ): Promise<ActionPlan> {
+    const entry = await this.next('think', { goal, state, history, lastError });
+    return entry.plan!;
+  }
+
+  async extract(goal: string, content: string, schema: z.ZodType): Promise<unknown> {
+    const entry = await this.next('extract', { goal, state: content, history: [] });
+    // 記録時からスキーマが変わっていれば、ここで検証エラーになる
+    return schema.parse(entry.data);
+  }
+
+  /**
+   * 次の記録を取り出し、種類の一致とドリフトを確認する
+   */
+  private async next(
+    kind: 'think' | 'extract',
+    input: CassetteEntry['input']
+  ): Promise<CassetteEntry> {
+    const entries = await this.load();
+
+    const entry = entries[this.cursor];
+    if (!entry) {
+      throw new Error(
+        `Cassette exhausted: ${entries.length} recorded step(s) were replayed, but the loop requested step ${this.cursor + 1}. (${this.filePath})`
+      );
+    }
+    this.cursor++;
+
+    if ((entry.kind ?? 'think') !== kind) {
+      throw new Error(
+        `Cassette mismatch at step ${entry.step}: recorded "${entry.kind ?? 'think'}", but the loop requested "${kind}". (${this.filePath})`
+      );
+    }
+
+    const drift = describeDrift(entry, input);
+    if (drift) {
+      const message = `Cassette drift detected at step ${entry.step}:\n${drift}`;
+      if (this.strict) {
+        throw new Error(message);
+      }
+      this.logger.info(`⚠️ ${message}`);
+    }
+
+    return entry;
+  }
+
+  private async load(): Promise<CassetteEntry[]> {
+    if (this.entries) return this.entries;
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read cassette file: ${error}`, { cause: error });
+    }
+
+    const cassette = JSON.parse(raw) as CassetteFile;
+    if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.entries)) {
+      throw new Error(`Unsupported cassette format: ${this.filePath}`);
+    }
+
+    // 記録後にスキーマが変わっていても安全に再生できるよう、プランを再検証する
+    this.entries = cassette.entries.map((entry) =>
+      entry.kind === 'extract' ? entry : { ...entry, plan: ActionSchema.parse(entry.plan) }
+    );
+    return this.entries;
+  }
+}
+
+/**
+ * 記録時の入力と現在の入力を比較し、差分の説明を返す (差分がなければ null)
+ */
+function describeDrift(entry: CassetteEntry, current: CassetteEntry['input']): string | null {
+  const recorded = entry.input;
+  const reasons: string[] = [];
+
+  if (recorded.goal !== current.goal) {
+    reasons.push(`- goal: recorded "${recorded.goal}", current "${current.goal}"`);
+  }
+
+  if (recorded.state !== current.state) {
+    const recordedLines = toLineSet(recorded.state);
+    const currentLines = toLineSet(current.state);
+    const missing = [...recordedLines].filter((line) => !currentLines.has(line));
+    const added = [...currentLines].filter((line) => !recordedLines.has(line));
+
+    reasons.push(`- state: ${missing.length} line(s) missing, ${added.length} line(s) new`);
+    const MAX_LINES = 5;
+    missing.slice(0, MAX_LINES).forEach((line) => reasons.push(`    - ${line}`));
+    added.slice(0, MAX_LINES).forEach((line) => reasons.push(`    + ${line}`));
+  }
+
+  if (recorded.history.join('\n') !== current.history.join('\n')) {
+    reasons.push('- history: differs from the recording');
+  }
+
+  if ((recorded.lastError || '') !== (current.lastError || '')) {
+    const summarize = (err?: string) => (err ? `"${err.split('\n')[0]}"` : 'none');
+    reasons.push(
+      `- lastError: recorded ${summarize(recorded.lastError)}, current ${summarize(current.lastError)}`
+    );
+  }
+
+  return reasons.length > 0 ? reasons.join('\n') : null;
+}
+
+function toLineSet(text: string): Set<string> {
+  return new Set(
+    text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+  );
+}
@@ -2,7 +2,11 @@
  * src/core/context-manager.ts
  * ブラウザコンテキスト、タブ(Page)、ダイアログを一元管理する
  */
+import * as fs from 'node:fs/promises';
 import { BrowserContext, Page, Dialog } from 'playwright';
+import { HarOptions, NetworkEntry, PageErrorEntry } from '../types';
+
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
 
 export class ContextManager {
   private context: BrowserContext;
@@ -14,6 +18,16 @@ export class ContextManager {
   private pendingDialogTimeout: NodeJS.Timeout | null = null;
   private readonly DIALOG_TIMEOUT_MS = 10000; // 10秒で自動処理
 
+  // XHR / fetch 通信の記録 (古いものから破棄)
+  private networkLog: NetworkEntry[] = [];
+  private networkSeq = 0;
+  private readonly MAX_NETWORK_ENTRIES = 200;
+
+  // console.error・未捕捉の例外・失敗したリクエストの記録
+  private errorLog: PageErrorEntry[] = [];
+  private errorSeq = 0;
+  private readonly MAX_ERROR_ENTRIES = 200;
+
   // イベントハンドラ参照（解除用）
   private onPageHandler: (page: Page) => void;
 
@@ -47,6 +61,59 @@ export class ContextManager {
     this.context.off('page', this.onPageHandler);
   }
 
+  /**
+   * ネットワーク通信の HAR への記録を開始する (既存・新規のすべてのタブが対象)
+   * HAR ファイルはコンテキストが閉じられた時点で書き出される
+   */
+  async recordHar(options: HarOptions): Promise<void> {
+    await this.context.routeFromHAR(options.path, {
+      url: options.urlFilter,
+      update: true,
+      updateContent: 'embed',
+    });
+  }
+
+  /**
+   * 既存のコンテキストに storageState ファイルの Cookie と localStorage を適用する (Libraryモード用)
+   * CLIモードでは newContext({ storageState }) で読み込むため使用しない
+   */
+  async loadStorageState(filePath: string): Promise<void> {
+    let state: StorageState;
+    try {
+      state = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read storage state: ${filePath}`, { cause: error });
+    }
+
+    if (state.cookies?.length) {
+      await this.context.addCookies(state.cookies);
+    }
+    if (state.origins?.length) {
+      // 以降に開かれる各ページで、まだ値の無いキーだけを設定する (実行中の変更は上書きしない)
+      await this.context.addInitScript((origins) => {
+        const entry = origins.find((o) => o.origin === window.location.origin);
+        for (const { name, value } of entry?.localStorage ?? []) {
+          if (window.localStorage.getItem(name) === null) window.localStorage.setItem(name, value);
+        }
+      }, state.origins);
+    }
+  }
+
+  /**
+   * 現在の Cookie と localStorage を storageState ファイルに書き出す
+   */
+  async saveStorageState(filePath: string): Promise<void> {
+    await this.context.storageState({ path: filePath });
+  }
+
+  /**
+   * コンテキストを閉じる (CLIモードの終了時。HAR の書き出しもここで行われる)
+   */
+  async close(): Promise<void> {
+    this.dispose();
+    await this.context.close();
+  }
+
   /**
    * ページイベントのリスナーを設定
    */
@@ -60,6 +127,31 @@ export class ContextManager {
       }
     });
 
+    // XHR / fetch 通信の記録 (画像・スクリプトなどの読み込みは対象外)
+    page.on('response', (response) => {
+      const request = response.request();
+      if (!['xhr', 'fetch'].includes(request.resourceType())) return;
+      this.addNetworkEntry({
+        method: request.method(),
+        url: response.url(),
+        status: response.status(),
+      });
+    });
+    page.on('requestfailed', (request) => {
+      const failure = request.failure()?.errorText ?? 'failed';
+      this.addErrorEntry(page, 'requestfailed', `${request.method()} ${request.url()}: ${failure}`);
+      if (!['xhr', 'fetch'].includes(request.resourceType())) return;
+      this.addNetworkEntry({ method: request.method(), url: request.url(), failure });
+    });
+
+    // エラーの記録
+    page.on('console', (message) => {
+      if (message.type() === 'error') this.addErrorEntry(page, 'console', message.text());
+    });
+    page.on('pageerror', (error) => {
+      this.addErrorEntry(page, 'pageerror', error.stack ?? error.message);
+    });
+
     // ダイアログ監視
     page.on('dialog', (dialog) => {
       console.log(`💬 Dialog detected: [${dialog.type()}] ${dialog.message()}`);
@@ -99,6 +191,44 @@ export class ContextManager {
     });
   }
 
+  private addNetworkEntry(entry: Omit<NetworkEntry, 'seq'>): void {
+    this.networkLog.push({ seq: ++this.networkSeq, ...entry });
+    if (this.networkLog.length > this.MAX_NETWORK_ENTRIES) this.networkLog.shift();
+  }
+
+  /**
+   * 通信記録の現在位置 (getNetworkActivity の起点として使う)
+   */
+  getNetworkCursor(): number {
+    return this.networkSeq;
+  }
+
+  /**
+   * 指定した位置より後に記録された通信を返す
+   */
+  getNetworkActivity(since: number): NetworkEntry[] {
+    return this.networkLog.filter((entry) => entry.seq > since);
+  }
+
+  private addErrorEntry(page: Page, type: PageErrorEntry['type'], message: string): void {
+    this.errorLog.push({ seq: ++this.errorSeq, type, message, pageUrl: page.url() });
+    if (this.errorLog.length > this.MAX_ERROR_ENTRIES) this.errorLog.shift();
+  }
+
+  /**
+   * エラー記録の現在位置 (getPageErrors の起点として使う)
+   */
+  getErrorCursor(): number {
+    return this.errorSeq;
+  }
+
+  /**
+   * 指定した位置より後に記録されたエラーを返す
+   */
+  getPageErrors(since: number): PageErrorEntry[] {
+    return this.errorLog.filter((entry) => entry.seq > since);
+  }
+
   /**
    * 現在のアクティブページを取得
    */
@@ -0,0 +1,68 @@
+/**
+ * src/core/emulation.ts
+ * ブラウザエンジンの選択と、デバイス・ロケールなどのコンテキスト設定を解決する (CLIモード用)
+ */
+import { BrowserContextOptions, BrowserType, chromium, devices, firefox, webkit } from 'playwright';
+import { BrowserName, EmulationOptions } from '../types';
+
+const BROWSER_TYPES: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
+
+type DeviceDescriptor = (typeof devices)[string];
+
+export interface BrowserSetup {
+  browserName: BrowserName;
+  browserType: BrowserType;
+  contextOptions: BrowserContextOptions;
+}
+
+export function getBrowserType(browserName: BrowserName): BrowserType {
+  return BROWSER_TYPES[browserName];
+}
+
+/**
+ * Playwright のデバイス定義を名前で取得する (見つからない場合は候補を添えてエラー)
+ */
+export function findDevice(name: string): DeviceDescriptor {
+  const descriptor = devices[name];
+  if (descriptor) return descriptor;
+
+  const query = name.toLowerCase();
+  const candidates = Object.keys(devices)
+    .filter((device) => device.toLowerCase().includes(query))
+    .slice(0, 5);
+  throw new Error(
+    `Unknown device: "${name}".${candidates.length > 0 ? ` Did you mean: ${candidates.join(', ')}?` : ''}`
+  );
+}
+
+/**
+ * 起動するブラウザと newContext に渡す設定を決める
+ * エンジンは明示指定 > デバイスの既定エンジン > chromium の順。個別の設定はデバイスの設定を上書きする
+ */
+export function resolveBrowserSetup(
+  browser: BrowserName | undefined,
+  emulation: EmulationOptions
+): BrowserSetup {
+  const { defaultBrowserType, ...deviceOptions } = emulation.device
+    ? findDevice(emulation.device)
+    : { defaultBrowserType: undefined };
+  const browserName = browser ?? defaultBrowserType ?? 'chromium';
+
+  const contextOptions: BrowserContextOptions = { ...deviceOptions };
+  if (emulation.viewport) contextOptions.viewport = emulation.viewport;
+  if (emulation.locale) contextOptions.locale = emulation.locale;
+  if (emulation.timezoneId) contextOptions.timezoneId = emulation.timezoneId;
+  if (emulation.colorScheme) contextOptions.colorScheme = emulation.colorScheme;
+  if (emulation.geolocation) {
+    contextOptions.geolocation = emulation.geolocation;
+    contextOptions.permissions = ['geolocation'];
+  }
+
+  if (browserName === 'firefox' && contextOptions.isMobile) {
+    throw new Error(
+      `The device "${emulation.device}" emulates a mobile browser, which Firefox does not support. Use chromium or webkit.`
+    );
+  }
+
+  return { browserName, browserType: BROWSER_TYPES[browserName], contextOptions };
+}
@@ -3,13 +3,62 @@
  * AIの意思決定を実行に移す。
  * 堅牢性を最優先し、Locatorの一意性を検証してから実行する (Double-Check Strategy)
  */
-import { Page, Locator, FrameLocator } from 'playwright';
+import { Page, Locator, FrameLocator, Response } from 'playwright';
 import { expect } from '@playwright/test';
-import { ActionPlan, ExecutionResult, ElementContainer } from '../types';
+import {
+  ActionPlan,
+  ExecutionResult,
+  ElementContainer,
+  CodeStep,
+  LocatorCall,
+  ResponseExpectation,
+  ScopeCandidate,
+  SelectorCandidates,
+  SelectorOptions,
+  SelectorStrategy,
+} from '../types';
 import { ContextManager } from './context-manager';
 import { ErrorTranslator } from './error-translator';
+import { SecretStore } from './secrets';
+import { SECRET_PLACEHOLDER_PATTERN } from '../constants';
+
+// ロケータ候補のデフォルト優先順 (XPath は常に最後)
+const DEFAULT_SELECTOR_PRIORITY: SelectorStrategy[] = [
+  'testId',
+  'role',
+  'label',
+  'placeholder',
+  'altText',
+  'title',
+  'text',
+];
+
+// extract で読み取るテキストの上限 (LLM のコンテキストを圧迫しないため)
+const MAX_EXTRACT_CHARS = 20000;
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+// ロケータの起点 (ページ・iframe・スコープとなる親要素)
+type LocatorRoot = Page | FrameLocator | Locator;
+
+interface LocatorCandidate {
+  get: (root: LocatorRoot) => Locator;
+  call: LocatorCall;
+}
 
 export class Executor {
+  private priority: SelectorStrategy[];
+  private secrets: SecretStore;
+  // シークレットを入力した要素 (スクリーンショットで塗りつぶす)
+  private secretInputs: Locator[] = [];
+
+  constructor(selectorOptions: SelectorOptions = {}, secrets: SecretStore = new SecretStore()) {
+    this.secrets = secrets;
+    this.priority = selectorOptions.priority?.length
+      ? selectorOptions.priority
+      : DEFAULT_SELECTOR_PRIORITY;
+  }
+
   /**
    * アクションを実行し、検証済みコードを生成する
    */
@@ -30,26 +79,9 @@ export class Executor {
         // 実行
         await contextManager.switchToTab(isNaN(index) ? target : index);
 
-        let generatedCode = '';
-        if (!isNaN(index)) {
-          // インデックス指定の場合
-          generatedCode = `await page.context().pages()[${index}].bringToFront();`;
-        } else {
-          // 文字列（タイトル/URL）指定の場合のスニペット生成
-          const escapedTarget = target.replace(/'/g, "\\'");
-          generatedCode = `
-// Switch to tab matching "${escapedTarget}"
-for (const p of page.context().pages()) {
-  if (p.url().includes('${escapedTarget}') || (await p.title()).includes('${escapedTarget}')) {
-    await p.bringToFront();
-    break;
-  }
-}`.trim();
-        }
-
         return {
           success: true,
-          generatedCode,
+          step: { actionType: 'switch_tab', value: target },
           retryable: false,
         };
       }
@@ -58,7 +90,7 @@ for (const p of page.context().pages()) {
         await contextManager.closeActiveTab();
         return {
           success: true,
-          generatedCode: `await page.close();`,
+          step: { actionType: 'close_tab' },
           retryable: false,
         };
       }
@@ -68,11 +100,49 @@ for (const p of page.context().pages()) {
         const target = elementMap.get(plan.targetId);
         if (!target) throw new Error(`Target ${plan.targetId} not found`);
 
-        const { locator, code } = await this.getRobustLocator(target, page);
+        const { locator, calls } = await this.getRobustLocator(target, page);
         await locator.waitFor({ state: 'visible', timeout: 10000 });
         return {
           success: true,
-          generatedCode: `await ${code}.waitFor({ state: 'visible' });`,
+          step: { actionType: 'wait_for_element', locator: calls, url: page.url() },
+          retryable: true,
+        };
+      }
+
+      if (plan.actionType === 'wait_for_response' || plan.actionType === 'assert_response') {
+        const expected = plan.response;
+        if (!expected?.urlIncludes) {
+          throw new Error(`${plan.actionType} requires response.urlIncludes`);
+        }
+
+        // トリガーとなるクリックより先に待機を開始する
+        let trigger: { locator: Locator; calls: LocatorCall[] } | undefined;
+        if (plan.targetId) {
+          const target = elementMap.get(plan.targetId);
+          if (!target) throw new Error(`Target ${plan.targetId} not found`);
+          trigger = await this.getRobustLocator(target, page);
+        }
+        // クリックが失敗した場合も待機側の reject を未処理にしないよう Promise.all で並行させる
+        const [response] = await Promise.all([
+          page.waitForResponse((response) => matchesResponse(response, expected), {
+            timeout: 10000,
+          }),
+          trigger?.locator.click(),
+        ]);
+
+        if (plan.actionType === 'assert_response') {
+          await assertResponse(response, expected);
+        }
+        await this.waitForStabilization(page);
+
+        return {
+          success: true,
+          step: {
+            actionType: plan.actionType,
+            locator: trigger?.calls,
+            response: expected,
+            url: page.url(),
+          },
           retryable: true,
         };
       }
@@ -82,34 +152,52 @@ for (const p of page.context().pages()) {
         await contextManager.handleDialog(action);
         return {
           success: true,
-          generatedCode: `// Note: Simple dialog handling. (Runtime uses ContextManager for auto-dismiss)
-page.once('dialog', dialog => dialog.${action}());`,
+          step: { actionType: 'handle_dialog', value: action },
           retryable: false,
         };
       }
 
       if (plan.actionType === 'navigate') {
         if (!plan.value) throw new Error('navigate action requires a URL in value.');
-        await page.goto(plan.value);
+        await page.goto(this.secrets.resolve(plan.value));
         return {
           success: true,
-          generatedCode: `await page.goto('${plan.value.replace(/'/g, "\\'")}');`,
+          step: { actionType: 'navigate', value: plan.value },
           retryable: true,
         };
       }
 
       if (plan.actionType === 'reload') {
         await page.reload();
-        return { success: true, generatedCode: 'await page.reload();', retryable: true };
+        return { success: true, step: { actionType: 'reload' }, retryable: true };
       }
 
       if (plan.actionType === 'go_back') {
         await page.goBack();
-        return { success: true, generatedCode: 'await page.goBack();', retryable: true };
+        return { success: true, step: { actionType: 'go_back' }, retryable: true };
+      }
+
+      if (plan.actionType === 'extract') {
+        // targetId が無い場合はページ全体を対象にする
+        let locator = page.locator('body');
+        let calls: LocatorCall[] = [{ method: 'locator', args: ['body'] }];
+        if (plan.targetId) {
+          const target = elementMap.get(plan.targetId);
+          if (!target) throw new Error(`Target ${plan.targetId} not found`);
+          ({ locator, calls } = await this.getRobustLocator(target, page));
+        }
+
+        const text = await locator.innerText();
+        return {
+          success: true,
+          step: { actionType: 'extract', locator: calls, url: page.url() },
+          retryable: true,
+          extractedText: text.slice(0, MAX_EXTRACT_CHARS),
+        };
       }
 
       if (plan.isFinished || plan.actionType === 'finish') {
-        return { success: true, generatedCode: '// Task Finished', retryable: false };
+        return { success: true, step: { actionType: 'finish' }, retryable: false };
       }
 
       // --- Element Interaction ---
@@ -118,11 +206,12 @@ page.once('dialog', dialog => dialog.${action}());`,
       if (!target) throw new Error(`Element with ID "${plan.targetId}" not found in memory.`);
 
       // 1. Double-Check
-      const { locator, code: selectorCode } = await this.getRobustLocator(target, page);
+      const { locator, calls } = await this.getRobustLocator(target, page);
+      const url = page.url();
 
       // Drag and Drop 用の補助ロケータ解決
       let auxLocator: Locator | undefined;
-      let auxCode: string | undefined;
+      let auxCalls: LocatorCall[] | undefined;
 
       if (plan.actionType === 'drag_and_drop') {
         if (!plan.targetId2) throw new Error('Drag and drop requires targetId2');
@@ -130,32 +219,34 @@ page.once('dialog', dialog => dialog.${action}());`,
         if (!target2) throw new Error(`Target 2 (ID: ${plan.targetId2}) not found`);
         const res2 = await this.getRobustLocator(target2, page);
         auxLocator = res2.locator;
-        auxCode = res2.code;
+        auxCalls = res2.calls;
       }
 
       // 2. Execute Action
-      await this.performLocatorAction(locator, plan, page, auxLocator);
+      const selectBy = await this.performLocatorAction(locator, plan, page, auxLocator);
 
       // 3. Stabilization
       await this.waitForStabilization(page);
 
       return {
         success: true,
-        generatedCode: this.generateCode(selectorCode, plan, auxCode),
+        step: this.generateStep(calls, plan, url, auxCalls, selectBy),
         retryable: false,
       };
     } catch (error) {
-      const translatedError = ErrorTranslator.translate(error);
+      const translatedError = this.secrets.mask(ErrorTranslator.translate(error));
       const msg = String(error);
 
       const isFatal =
         msg.includes('requires a target') ||
         msg.includes('requires targetId') ||
         msg.includes('requires a URL') ||
+        msg.includes('requires response') ||
         msg.includes('Unsupported action') ||
         msg.includes('not found in memory') ||
         msg.includes('not found') || // "Target ... not found" も含む
-        msg.includes('Target ID is missing');
+        msg.includes('Target ID is missing') ||
+        msg.includes('is not defined. Set the');
 
       return {
         success: false,
@@ -168,63 +259,203 @@ page.once('dialog', dialog => dialog.${action}());`,
 
   /**
    * ElementContainerから「現在動作する」最適なLocatorを生成・検証する
+   * (heal コマンドからもセレクタの再計算に利用される)
+   *
+   * 1. 単独のセレクタ候補 (優先順)
+   * 2. 祖先コンテナで絞り込んだスコープ付きロケータ (例: 行 > ボタン)
+   * 3. 最優先候補の .nth() (最終手段)
+   * 4. XPath (セレクタ候補が一切無い場合のみ)
    */
-  private async getRobustLocator(
+  async getRobustLocator(
     target: ElementContainer,
     page: Page
-  ): Promise<{ locator: Locator; code: string }> {
+  ): Promise<{ locator: Locator; calls: LocatorCall[] }> {
     const context = this.buildContext(page, target.frameSelectorChain);
-    const contextCode = this.buildContextCode(target.frameSelectorChain);
+    const contextCalls = this.buildContextCalls(target.frameSelectorChain);
+    const candidates = this.buildCandidates(target.selectors);
 
-    const s = target.selectors;
-    const candidates: Array<{ get: () => Locator; code: string }> = [];
+    for (const cand of candidates) {
+      try {
+        const loc = cand.get(context);
+        if ((await loc.count()) === 1 && (await loc.isVisible())) {
+          return { locator: loc, calls: [...contextCalls, cand.call] };
+        }
+      } catch {
+        // next candidate
+      }
+    }
+
+    // スコープ付きロケータ: 一意で表示されており、かつ対象要素そのものを指す場合のみ採用
+    for (const scope of target.scopes ?? []) {
+      for (const root of this.buildScopeRoots(scope)) {
+        for (const cand of candidates) {
+          try {
+            const loc = cand.get(root.get(context));
+            if (
+              (await loc.count()) === 1 &&
+              (await loc.isVisible()) &&
+              (await this.isTargetElement(loc, target))
+            ) {
+              return { locator: loc, calls: [...contextCalls, ...root.calls, cand.call] };
+            }
+          } catch {
+            // next candidate
+          }
+        }
+      }
+    }
+
+    // 最終手段: 最優先の候補を .nth() で特定する (非表示の重複要素は再生時に失敗するため除外)
+    if (candidates.length > 0) {
+      try {
+        const loc = candidates[0].get(context);
+        const count = await loc.count();
+        for (let i = 0; i < count; i++) {
+          if ((await loc.nth(i).isVisible()) && (await this.isTargetElement(loc.nth(i), target))) {
+            return {
+              locator: loc.nth(i),
+              calls: [...contextCalls, candidates[0].call, { method: 'nth', args: [i] }],
+            };
+          }
+        }
+      } catch {
+        // fall through to XPath
+      }
+    }
+
+    try {
+      const loc = context.locator(target.xpath);
+      if ((await loc.count()) === 1 && (await loc.isVisible())) {
+        return {
+          locator: loc,
+          calls: [...contextCalls, { method: 'locator', args: [target.xpath] }],
+        };
+      }
+    } catch {
+      // no more candidates
+    }
+
+    throw new Error(
+      'Failed to generate a robust selector for this element. It might be hidden or dynamic.'
+    );
+  }
+
+  /**
+   * セレクタ候補を設定された優先順に並べる (任意の起点に適用できる形で返す)
+   */
+  private buildCandidates(s: SelectorCandidates): LocatorCandidate[] {
+    const candidateMap: Partial<Record<SelectorStrategy, LocatorCandidate>> = {};
 
     if (s.testId) {
-      candidates.push({
-        get: () => context.getByTestId(s.testId!),
-        code: `.getByTestId('${s.testId.replace(/'/g, "\\'")}')`,
-      });
+      candidateMap.testId = {
+        get: (root) => root.getByTestId(s.testId!),
+        call: { method: 'getByTestId', args: [s.testId] },
+      };
     }
     if (s.role && s.role.name) {
-      const role = s.role.role as Parameters<Page['getByRole']>[0];
+      const role = s.role.role as AriaRole;
       const name = s.role.name;
-      candidates.push({
-        get: () => context.getByRole(role, { name: name, exact: true }),
-        code: `.getByRole('${role}', { name: '${name.replace(/'/g, "\\'")}', exact: true })`,
-      });
+      candidateMap.role = {
+        get: (root) => root.getByRole(role, { name: name, exact: true }),
+        call: { method: 'getByRole', args: [role, { name, exact: true }] },
+      };
+    }
+    if (s.label) {
+      candidateMap.label = {
+        get: (root) => root.getByLabel(s.label!, { exact: true }),
+        call: { method: 'getByLabel', args: [s.label, { exact: true }] },
+      };
     }
     if (s.placeholder) {
-      candidates.push({
-        get: () => context.getByPlaceholder(s.placeholder!),
-        code: `.getByPlaceholder('${s.placeholder.replace(/'/g, "\\'")}')`,
-      });
+      candidateMap.placeholder = {
+        get: (root) => root.getByPlaceholder(s.placeholder!),
+        call: { method: 'getByPlaceholder', args: [s.placeholder] },
+      };
+    }
+    if (s.altText) {
+      candidateMap.altText = {
+        get: (root) => root.getByAltText(s.altText!, { exact: true }),
+        call: { method: 'getByAltText', args: [s.altText, { exact: true }] },
+      };
+    }
+    if (s.title) {
+      candidateMap.title = {
+        get: (root) => root.getByTitle(s.title!, { exact: true }),
+        call: { method: 'getByTitle', args: [s.title, { exact: true }] },
+      };
     }
     if (s.text) {
-      candidates.push({
-        get: () => context.getByText(s.text!, { exact: true }),
-        code: `.getByText('${s.text!.replace(/'/g, "\\'")}', { exact: true })`,
+      candidateMap.text = {
+        get: (root) => root.getByText(s.text!, { exact: true }),
+        call: { method: 'getByText', args: [s.text, { exact: true }] },
+      };
+    }
+
+    return this.priority
+      .map((strategy) => candidateMap[strategy])
+      .filter((cand) => cand !== undefined);
+  }
+
+  /**
+   * 祖先コンテナを特定するロケータの候補 (安定性の高い順)
+   */
+  private buildScopeRoots(
+    scope: ScopeCandidate
+  ): Array<{ get: (root: LocatorRoot) => Locator; calls: LocatorCall[] }> {
+    const roots: Array<{ get: (root: LocatorRoot) => Locator; calls: LocatorCall[] }> = [];
+
+    if (scope.testId) {
+      roots.push({
+        get: (root) => root.getByTestId(scope.testId!),
+        calls: [{ method: 'getByTestId', args: [scope.testId] }],
+      });
+    }
+    if (scope.role && scope.name) {
+      const role = scope.role as AriaRole;
+      const name = scope.name;
+      roots.push({
+        get: (root) => root.getByRole(role, { name, exact: true }),
+        calls: [{ method: 'getByRole', args: [role, { name, exact: true }] }],
+      });
+    }
+    if (scope.role && scope.hasText) {
+      const role = scope.role as AriaRole;
+      const hasText = scope.hasText;
+      roots.push({
+        get: (root) => root.getByRole(role).filter({ hasText }),
+        calls: [
+          { method: 'getByRole', args: [role] },
+          { method: 'filter', args: [{ hasText }] },
+        ],
       });
     }
-    // XPath
-    candidates.push({
-      get: () => context.locator(target.xpath),
-      code: `.locator('${target.xpath.replace(/'/g, "\\'")}')`,
-    });
+    return roots;
+  }
 
-    for (const cand of candidates) {
-      try {
-        const loc = cand.get();
-        if ((await loc.count()) === 1 && (await loc.isVisible())) {
-          return { locator: loc, code: `${contextCode}${cand.code}` };
-        }
-      } catch {
-        // next candidate
-      }
+  /**
+   * ロケータが観測時の要素そのものを指しているか確認する
+   */
+  private async isTargetElement(locator: Locator, target: ElementContainer): Promise<boolean> {
+    const handle = await locator.elementHandle({ timeout: 1000 });
+    if (!handle) return false;
+    try {
+      return await handle.evaluate((el, other) => el === other, target.handle);
+    } finally {
+      await handle.dispose();
     }
+  }
 
-    throw new Error(
-      'Failed to generate a robust selector for this element. It might be hidden or dynamic.'
-    );
+  /**
+   * 指定ページ上でシークレットを入力した要素 (スクリーンショットの mask 用)
+   */
+  getSecretInputs(page: Page): Locator[] {
+    return this.secretInputs.filter((locator) => locator.page() === page);
+  }
+
+  private trackSecretInput(locator: Locator, plan: ActionPlan): void {
+    if (plan.value && SECRET_PLACEHOLDER_PATTERN.test(plan.value)) {
+      this.secretInputs.push(locator);
+    }
   }
 
   private async performLocatorAction(
@@ -232,8 +463,9 @@ page.once('dialog', dialog => dialog.${action}());`,
     plan: ActionPlan,
     page: Page,
     auxLocator?: Locator
-  ) {
-    const val = plan.value || '';
+  ): Promise<CodeStep['selectBy']> {
+    // シークレットは実行直前にのみ展開する (生成コードにはプレースホルダのまま残す)
+    const val = this.secrets.resolve(plan.value || '');
     switch (plan.actionType) {
       case 'click':
         await locator.click();
@@ -255,9 +487,11 @@ page.once('dialog', dialog => dialog.${action}());`,
         break;
       case 'fill':
         await locator.fill(val);
+        this.trackSecretInput(locator, plan);
         break;
       case 'type':
         await locator.pressSequentially(val);
+        this.trackSecretInput(locator, plan);
         break;
       case 'check':
         await locator.check();
@@ -275,10 +509,11 @@ page.once('dialog', dialog => dialog.${action}());`,
       case 'select_option':
         try {
           await locator.selectOption({ label: val });
+          return 'label';
         } catch {
           await locator.selectOption({ value: val });
+          return 'value';
         }
-        break;
       case 'keypress':
         await locator.press(val);
         break;
@@ -319,76 +554,29 @@ page.once('dialog', dialog => dialog.${action}());`,
     return context;
   }
 
-  private buildContextCode(chain: string[]): string {
-    let code = 'page';
-    for (const sel of chain) code += `.frameLocator('${sel.replace(/'/g, "\\'")}')`;
-    return code;
+  private buildContextCalls(chain: string[]): LocatorCall[] {
+    return chain.map((sel) => ({ method: 'frameLocator', args: [sel] }));
   }
 
-  private generateCode(selectorCode: string, plan: ActionPlan, auxCode?: string): string {
-    const val = plan.value ? `'${plan.value.replace(/'/g, "\\'")}'` : '';
-
-    switch (plan.actionType) {
-      case 'click':
-        return `await ${selectorCode}.click();`;
-      case 'dblclick':
-        return `await ${selectorCode}.dblclick();`;
-      case 'right_click':
-        return `await ${selectorCode}.click({ button: 'right' });`;
-      case 'hover':
-        return `await ${selectorCode}.hover();`;
-      case 'fill':
-        return `await ${selectorCode}.fill(${val});`;
-      case 'type':
-        return `await ${selectorCode}.pressSequentially(${val});`;
-      case 'clear':
-        return `await ${selectorCode}.clear();`;
-      case 'check':
-        return `await ${selectorCode}.check();`;
-      case 'uncheck':
-        return `await ${selectorCode}.uncheck();`;
-
-      case 'upload': {
-        const rawVal = plan.value || '';
-        if (rawVal.includes(',')) {
-          // 'file1.png', 'file2.png' -> "'file1.png', 'file2.png'"
-          // 配列リテラルとしてコード生成
-          const files = rawVal.split(',').map((f) => `'${f.trim().replace(/'/g, "\\'")}'`);
-          return `await ${selectorCode}.setInputFiles([${files.join(', ')}]);`;
-        }
-        // 単一ファイル
-        return `await ${selectorCode}.setInputFiles(${val});`;
-      }
-
-      case 'keypress':
-        return `await ${selectorCode}.press(${val});`;
-
-      case 'focus':
-        return `await ${selectorCode}.focus();`;
-
-      case 'select_option':
-        return `await ${selectorCode}.selectOption({ label: ${val} }).catch(() => ${selectorCode}.selectOption({ value: ${val} }));`;
-
-      case 'assert_visible':
-        return `await expect(${selectorCode}).toBeVisible();`;
-      case 'assert_text':
-        return `await expect(${selectorCode}).toContainText(${val});`;
-      case 'assert_value':
-        return `await expect(${selectorCode}).toHaveValue(${val});`;
-      case 'assert_url':
-        return `await expect(page).toHaveURL(${val});`;
-
-      case 'drag_and_drop':
-        return `await ${selectorCode}.dragTo(${auxCode || '/* Unknown Target */'});`;
-
-      case 'scroll':
-        return `await ${selectorCode}.scrollIntoViewIfNeeded();`;
-
-      default:
-        // 引数があるかわからないため、安全策としてvalを入れているが、
-        // 上記で主要なアクションはカバーされているはず
-        return `await ${selectorCode}.${plan.actionType}(${val});`;
+  private generateStep(
+    calls: LocatorCall[],
+    plan: ActionPlan,
+    url: string,
+    auxCalls?: LocatorCall[],
+    selectBy?: CodeStep['selectBy']
+  ): CodeStep {
+    const step: CodeStep = { actionType: plan.actionType, locator: calls, url };
+    if (plan.value !== undefined) step.value = plan.value;
+
+    if (plan.actionType === 'upload') {
+      // カンマ区切りで複数ファイル対応
+      const rawVal = plan.value || '';
+      step.files = rawVal.includes(',') ? rawVal.split(',').map((f) => f.trim()) : [rawVal];
     }
+    if (plan.actionType === 'drag_and_drop') step.targetLocator = auxCalls;
+    if (selectBy) step.selectBy = selectBy;
+
+    return step;
   }
 
   private async waitForStabilization(page: Page) {
@@ -401,3 +589,28 @@ page.once('dialog', dialog => dialog.${action}());`,
     }
   }
 }
+
+function matchesResponse(response: Response, expected: ResponseExpectation): boolean {
+  if (!response.url().includes(expected.urlIncludes)) return false;
+  return !expected.method || response.request().method() === expected.method.toUpperCase();
+}
+
+async function assertResponse(response: Response, expected: ResponseExpectation): Promise<void> {
+  const label = `${response.request().method()} ${response.url()}`;
+  const statusOk =
+    expected.status !== undefined ? response.status() === expected.status : response.ok();
+  if (!statusOk) {
+    const expectedStatus = expected.status ?? '2xx';
+    throw new Error(
+      `Response assertion failed: expected status ${expectedStatus} but got ${response.status()} (${label})`
+    );
+  }
+  if (expected.bodyIncludes !== undefined) {
+    const body = await response.text();
+    if (!body.includes(expected.bodyIncludes)) {
+      throw new Error(
+        `Response assertion failed: body of ${label} does not contain "${expected.bodyIncludes}"`
+      );
+    }
+  }
+}
@@ -0,0 +1,523 @@
+/**
+ * src/core/healer.ts
+ * 既存の生成済みspecを実行し、壊れたロケータをライブページ上で再特定して書き換える (Self-Healing)
+ */
+import * as fs from 'node:fs/promises';
+import { selectors, devices, Browser, BrowserContextOptions, Page } from 'playwright';
+import { expect } from '@playwright/test';
+import { Brain, IBrain } from './brain';
+import { Observer } from './observer';
+import { Executor } from './executor';
+import { getBrowserType } from './emulation';
+import { ILogger, ConsoleLogger } from '../tools/logger';
+import { renderTypeScriptLocator } from '../tools/codegen/typescript';
+import { BrowserName, BrowserNameEnum, LLMOptions, SelectorOptions } from '../types';
+
+export interface HealOptions {
+  startUrl?: string; // spec冒頭に page.goto が無い場合の開始URL
+  headless?: boolean;
+  timeout?: number; // 各ステートメントのタイムアウト (ms)
+  dryRun?: boolean; // true の場合、specファイルを書き換えない
+  llm?: LLMOptions;
+  selectors?: SelectorOptions;
+  logger?: ILogger;
+}
+
+/**
+ * specファイルに対する1行分の書き換え
+ */
+export interface HealRewrite {
+  line: number; // 1-based
+  before: string;
+  after: string;
+  stepTitle?: string;
+}
+
+export interface HealResult {
+  specPath: string;
+  passed: boolean; // 書き換え後、すべてのステートメントが成功したか
+  rewrites: HealRewrite[];
+  failure?: { line: number; code: string; error: string };
+}
+
+/**
+ * specから抽出した実行単位 (複数行にまたがる場合がある)
+ * test.step の本体は、変数 (const response = ... など) を共有できるよう1つの単位として扱う
+ */
+export interface SpecStatement {
+  startLine: number; // 0-based
+  endLine: number; // 0-based, inclusive
+  code: string;
+  stepTitle?: string;
+}
+
+/**
+ * specから抽出したテスト (test.fixme は実行しないため含まない)
+ */
+export interface ParsedSpec {
+  beforeEach: SpecStatement[];
+  tests: Array<{ title: string; statements: SpecStatement[] }>;
+}
+
+/**
+ * spec の test.use から解決したブラウザとコンテキストの設定
+ */
+export interface SpecTestUse {
+  browserName: BrowserName;
+  contextOptions: BrowserContextOptions;
+}
+
+interface LocatorExpression {
+  text: string;
+}
+
+// ロケータチェーンとして解釈するメソッド
+const LOCATOR_METHODS = new Set([
+  'frameLocator',
+  'locator',
+  'getByTestId',
+  'getByRole',
+  'getByPlaceholder',
+  'getByText',
+  'getByLabel',
+  'getByTitle',
+  'getByAltText',
+  'filter',
+  'nth',
+  'first',
+  'last',
+]);
+
+const DEFAULT_STATEMENT_TIMEOUT_MS = 5000;
+
+/**
+ * ステートメントから参照される spec のモジュールスコープの識別子
+ * - selectors: selectors.setTestIdAttribute(...)
+ * - test: extract ステップの test.info().attach(...) など (最小限の代替実装)
+ * - requireEnv: シークレットを参照するステップ
+ */
+const SPEC_SCOPE: Record<string, unknown> = {
+  expect,
+  selectors,
+  test: {
+    info: () => ({ attach: async () => {} }),
+    step: async <T>(_title: string, body: () => Promise<T>) => body(),
+  },
+  requireEnv: (name: string): string => {
+    const value = process.env[name];
+    if (value === undefined) throw new Error(`Missing environment variable: ${name}`);
+    return value;
+  },
+};
+
+type StatementRunner = (page: Page, ...scope: unknown[]) => Promise<unknown>;
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+  ...args: string[]
+) => StatementRunner;
+
+function compileStatement(code: string): (page: Page) => Promise<unknown> {
+  const run = new AsyncFunction('page', ...Object.keys(SPEC_SCOPE), code);
+  return (page) => run(page, ...Object.values(SPEC_SCOPE));
+}
+
+export class SpecHealer {
+  private brain: IBrain;
+  private observer: Observer;
+  private executor: Executor;
+  private logger: ILogger;
+  private options: HealOptions;
+  private browser: Browser | null = null;
+
+  constructor(options: HealOptions = {}) {
+    this.options = options;
+    this.brain = new Brain(options.llm);
+    this.observer = new Observer(options.selectors);
+    this.executor = new Executor(options.selectors);
+    this.logger = options.logger || new ConsoleLogger();
+  }
+
+  async heal(specPath: string): Promise<HealResult> {
+    const source = await fs.readFile(specPath, 'utf-8');
+    const lines = source.split('\n');
+    const spec = parseSpec(lines);
+    const { browserName, contextOptions } = parseTestUse(lines);
+
+    const result: HealResult = { specPath, passed: true, rewrites: [] };
+
+    if (this.options.selectors?.testIdAttribute) {
+      selectors.setTestIdAttribute(this.options.selectors.testIdAttribute);
+    }
+    this.browser = await getBrowserType(browserName).launch({ headless: this.options.headless });
+    try {
+      // suite の各テストは、実際のテスト実行と同じく新しいコンテキストで beforeEach から実行する
+      for (const test of spec.tests) {
+        if (spec.tests.length > 1) this.logger.info(`Test: ${test.title}`);
+
+        const context = await this.browser.newContext(contextOptions);
+        const page = await context.newPage();
+        page.setDefaultTimeout(this.options.timeout ?? DEFAULT_STATEMENT_TIMEOUT_MS);
+        if (this.options.startUrl) await page.goto(this.options.startUrl);
+
+        const passed = await this.runStatements(
+          page,
+          [...spec.beforeEach, ...test.statements],
+          lines,
+          result
+        );
+        await context.close();
+        if (!passed) break;
+      }
+    } finally {
+      await this.cleanup();
+    }
+
+    if (result.rewrites.length > 0 && !this.options.dryRun) {
+      await fs.writeFile(specPath, lines.join('\n'), 'utf-8');
+    }
+    return result;
+  }
+
+  async cleanup(): Promise<void> {
+    if (this.browser) {
+      try {
+        await this.browser.close();
+      } catch {
+        // すでに閉じられている場合は無視
+      }
+      this.browser = null;
+    }
+  }
+
+  /**
+   * ステートメントを順に実行し、失敗したものは修復して lines と result に反映する
+   * @returns 修復できずに中断した場合は false
+   */
+  private async runStatements(
+    page: Page,
+    statements: SpecStatement[],
+    lines: string[],
+    result: HealResult
+  ): Promise<boolean> {
+    for (const statement of statements) {
+      const lineNo = statement.startLine + 1;
+      this.logger.start(`Line ${lineNo}: ${statement.code.trim().split('\n')[0]}`);
+
+      const error = await this.runStatement(page, statement.code);
+      if (!error) {
+        this.logger.stop();
+        continue;
+      }
+
+      this.logger.fail(`Line ${lineNo} failed: ${error.split('\n')[0]}`);
+      const healedCode = await this.healStatement(page, statement, error);
+      const retryError = healedCode ? await this.runStatement(page, healedCode) : error;
+
+      if (!healedCode || retryError) {
+        result.passed = false;
+        result.failure = { line: lineNo, code: statement.code.trim(), error: retryError! };
+        this.logger.error(`Could not heal line ${lineNo}. Stopping.`);
+        return false;
+      }
+
+      // 変更された行だけを書き換え記録として残す
+      const healedLines = healedCode.split('\n');
+      healedLines.forEach((after, offset) => {
+        const index = statement.startLine + offset;
+        if (lines[index] !== after) {
+          result.rewrites.push({
+            line: index + 1,
+            before: lines[index],
+            after,
+            stepTitle: statement.stepTitle,
+          });
+          lines[index] = after;
+        }
+      });
+      // beforeEach のステートメントは後続のテストでも実行するため、修復後のコードに差し替える
+      statement.code = healedCode;
+      this.logger.success(`Healed line ${lineNo}`);
+    }
+    return true;
+  }
+
+  /**
+   * ステートメントを実行し、失敗した場合はエラーメッセージを返す
+   */
+  private async runStatement(page: Page, code: string): Promise<string | null> {
+    try {
+      await compileStatement(code)(page);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * 一意に解決できないロケータを Brain + Executor のロジックで再計算し、修正後のコードを返す
+   */
+  private async healStatement(
+    page: Page,
+    statement: SpecStatement,
+    error: string
+  ): Promise<string | null> {
+    let healedCode = statement.code;
+
+    for (const expr of findLocatorExpressions(statement.code)) {
+      const count = await this.countMatches(page, expr.text);
+      if (count === 1) continue;
+
+      this.logger.info(`Locator matched ${count} element(s): ${expr.text}`);
+      const replacement = await this.findReplacement(page, statement, expr, count, error);
+      if (!replacement) return null;
+
+      // 置換文字列の $& などを解釈させないよう関数で渡す
+      healedCode = healedCode.replace(expr.text, () => replacement);
+    }
+
+    // 壊れたロケータが見つからない場合はロケータ以外の失敗 (アサーション値など)
+    return healedCode === statement.code ? null : healedCode;
+  }
+
+  private async countMatches(page: Page, locatorCode: string): Promise<number> {
+    try {
+      return (await compileStatement(`return await (${locatorCode}).count();`)(page)) as number;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async findReplacement(
+    page: Page,
+    statement: SpecStatement,
+    expr: LocatorExpression,
+    count: number,
+    error: string
+  ): Promise<string | null> {
+    const { stateText, elementMap } = await this.observer.captureState(page);
+
+    const goal = `Repair a broken step of an existing Playwright test.
+The locator \`${expr.text}\` now matches ${count} element(s) instead of exactly one.
+${statement.stepTitle ? `Step description: "${statement.stepTitle}"\n` : ''}Original code:
+${statement.code.trim()}
+
+Find the element on the current page that this locator was intended to target and return its Virtual ID as 'targetId'.
+The action will NOT be executed; only 'targetId' is used. If no matching element exists, return actionType 'finish' without a targetId.`;
+
+    this.logger.thought('Looking for the intended element...');
+    const plan = await this.brain.think(goal, stateText, [], error.split('\n')[0]);
+    this.logger.thought(plan.thought);
+
+    const target = plan.targetId ? elementMap.get(plan.targetId) : undefined;
+    if (!target) return null;
+
+    try {
+      const { calls } = await this.executor.getRobustLocator(target, page);
+      return renderTypeScriptLocator(calls);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * 書き換え内容を diff 形式の文字列に整形する
+ */
+export function formatRewriteDiff(specPath: string, rewrite: HealRewrite): string {
+  const header = `--- ${specPath}\n+++ ${specPath} (healed)\n@@ line ${rewrite.line} @@`;
+  const title = rewrite.stepTitle ? ` ${rewrite.stepTitle}` : '';
+  return `${header}${title}\n-${rewrite.before}\n+${rewrite.after}`;
+}
+
+/**
+ * spec の test.use({ ... }) を評価し、ブラウザとコンテキストの設定を返す (test.use が無ければデフォルト)
+ * エンジンは browserName > デバイスの既定エンジン > chromium の順
+ */
+export function parseTestUse(lines: string[]): SpecTestUse {
+  const start = lines.findIndex((line) => line.startsWith('test.use('));
+  if (start < 0) return { browserName: 'chromium', contextOptions: {} };
+
+  let depth = 0;
+  let end = start;
+  for (; end < lines.length; end++) {
+    depth += bracketDelta(lines[end]);
+    if (depth <= 0) break;
+  }
+  const code = lines
+    .slice(start, end + 1)
+    .join('\n')
+    .replace(/^test\.use\(/, '')
+    .replace(/\);\s*$/, '');
+
+  let use: Record<string, unknown>;
+  try {
+    use = new Function('devices', `return (${code});`)(devices);
+  } catch (error) {
+    throw new Error(`Could not evaluate test.use at line ${start + 1} of the spec.`, {
+      cause: error,
+    });
+  }
+
+  const { browserName, defaultBrowserType, ...contextOptions } = use;
+  return {
+    browserName: BrowserNameEnum.parse(browserName ?? defaultBrowserType ?? 'chromium'),
+    contextOptions: contextOptions as BrowserContextOptions,
+  };
+}
+
+/**
+ * 生成済みspec (FileGenerator / SuiteGenerator形式) から beforeEach と各 test の本体を抽出する
+ */
+export function parseSpec(lines: string[]): ParsedSpec {
+  const spec: ParsedSpec = { beforeEach: [], tests: [] };
+
+  lines.forEach((line, i) => {
+    if (/^\s*test\.beforeEach\(async\s*\(\s*\{\s*page\s*\}\s*\)\s*=>\s*\{\s*$/.test(line)) {
+      spec.beforeEach.push(...parseSpecStatements(lines, i));
+      return;
+    }
+    const testMatch = line.match(/^\s*test\((.*), async\s*\(\s*\{\s*page\s*\}\s*\)\s*=>\s*\{\s*$/);
+    if (testMatch) {
+      const literal = testMatch[1].match(/^'((?:\\.|[^'\\])*)'$/);
+      spec.tests.push({
+        title: literal ? literal[1].replace(/\\(.)/g, '$1') : testMatch[1],
+        statements: parseSpecStatements(lines, i),
+      });
+    }
+  });
+
+  if (spec.tests.length === 0) {
+    throw new Error('No test body (`test(..., async ({ page }) => {`) found in the spec.');
+  }
+  return spec;
+}
+
+/**
+ * test / beforeEach 本体のステートメントを抽出する
+ * test.step のラッパー行や test.setTimeout などのメタ行は除外する
+ */
+function parseSpecStatements(lines: string[], bodyStart: number): SpecStatement[] {
+  const statements: SpecStatement[] = [];
+  let buffer: string[] = [];
+  let startLine = 0;
+  let depth = 0;
+  let stepTitle: string | undefined;
+  let stepUnit: SpecStatement | undefined; // 実行中の test.step の本体
+
+  for (let i = bodyStart + 1; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (buffer.length === 0) {
+      if (!trimmed || trimmed.startsWith('//')) continue;
+
+      const stepMatch = trimmed.match(/^await test\.step\('((?:\\.|[^'\\])*)', async \(\) => \{$/);
+      if (stepMatch) {
+        stepTitle = stepMatch[1].replace(/\\(.)/g, '$1');
+        continue;
+      }
+      if (trimmed === '});') {
+        // test.step の終端 or test 本体の終端
+        if (stepTitle !== undefined) {
+          stepTitle = undefined;
+          stepUnit = undefined;
+          continue;
+        }
+        break;
+      }
+      if (trimmed.startsWith('test.')) continue;
+      startLine = i;
+    }
+
+    buffer.push(line);
+    depth += bracketDelta(trimmed);
+    if (depth <= 0) {
+      if (stepUnit) {
+        stepUnit.endLine = i;
+        stepUnit.code = lines.slice(stepUnit.startLine, i + 1).join('\n');
+      } else {
+        const statement = { startLine, endLine: i, code: buffer.join('\n'), stepTitle };
+        statements.push(statement);
+        if (stepTitle !== undefined) stepUnit = statement;
+      }
+      buffer = [];
+      depth = 0;
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * 文字列リテラルを無視して括弧の増減を数える
+ */
+function bracketDelta(text: string): number {
+  let delta = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === '`') quote = ch;
+    else if ('{(['.includes(ch)) delta++;
+    else if ('})]'.includes(ch)) delta--;
+  }
+  return delta;
+}
+
+/**
+ * 対応する閉じ括弧の位置を返す (文字列リテラル考慮)
+ */
+function findClosingParen(code: string, openIndex: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = openIndex; i < code.length; i++) {
+    const ch = code[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === '`') quote = ch;
+    else if (ch === '(') depth++;
+    else if (ch === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * コード中の `page.getByRole(...)...` のようなロケータチェーンを抽出する
+ */
+function findLocatorExpressions(code: string): LocatorExpression[] {
+  const expressions: LocatorExpression[] = [];
+  const pagePattern = /\bpage(?=\.)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pagePattern.exec(code)) !== null) {
+    let pos = match.index + 'page'.length;
+    let hasElementLocator = false;
+
+    for (;;) {
+      const call = /^\.(\w+)\(/.exec(code.slice(pos));
+      if (!call || !LOCATOR_METHODS.has(call[1])) break;
+
+      const close = findClosingParen(code, pos + call[0].length - 1);
+      if (close < 0) break;
+      if (call[1] !== 'frameLocator') hasElementLocator = true;
+      pos = close + 1;
+    }
+
+    if (hasElementLocator) {
+      expressions.push({ text: code.slice(match.index, pos) });
+      pagePattern.lastIndex = pos;
+    }
+  }
+
+  return expressions;
+}
@@ -0,0 +1,123 @@
+/**
+ * src/core/hooks.ts
+ * ループの各フェーズで呼び出されるライフサイクルフック (ダッシュボード・ガードレール・メトリクス用)
+ */
+import { Page } from 'playwright';
+import { ActionPlan, ElementContainer, ExecutionResult, RunResult } from '../types';
+
+/**
+ * フックに渡される実行中の状況
+ */
+export interface HookContext {
+  goal: string;
+  step: number;
+  page: Page; // アクティブタブ
+}
+
+/**
+ * Brain に渡す直前の観測結果
+ */
+export interface ObserveEvent {
+  stateText: string; // ダイアログ情報・Set-of-Marks の対応表を含む、Brain に渡すテキスト
+  elementMap: Map<string, ElementContainer>;
+  screenshot?: Buffer; // Vision モードの場合
+}
+
+/**
+ * beforeExecute の戻り値
+ * - plan: 実行するプランを差し替える
+ * - veto: 実行を拒否する (理由はエラーとして Brain に返される)
+ * - skip: 実行せず、バッチの残りも破棄して再観測する
+ * - finish: ゴール達成として終了する (値は終了理由)
+ * - note: 履歴に残すメッセージ (人による修正内容や追加の指示など)
+ * 何も返さない場合はそのまま実行する
+ */
+export interface BeforeExecuteDecision {
+  plan?: ActionPlan;
+  veto?: string;
+  skip?: boolean;
+  finish?: string;
+  note?: string;
+}
+
+/**
+ * 全フックの beforeExecute を適用した結果
+ */
+export interface ResolvedExecuteDecision {
+  plan: ActionPlan;
+  veto?: string;
+  skip?: boolean;
+  finish?: string;
+  notes: string[];
+}
+
+export interface FlashLoopHooks {
+  onObserve?(event: ObserveEvent, context: HookContext): void | Promise<void>;
+  onPlan?(plan: ActionPlan, context: HookContext): void | Promise<void>;
+  /**
+   * バッチ内の各アクションの実行直前に呼ばれる
+   */
+  beforeExecute?(
+    plan: ActionPlan,
+    context: HookContext
+  ): BeforeExecuteDecision | void | Promise<BeforeExecuteDecision | void>;
+  afterExecute?(
+    result: ExecutionResult,
+    plan: ActionPlan,
+    context: HookContext
+  ): void | Promise<void>;
+  onFinish?(result: RunResult): void | Promise<void>;
+}
+
+/**
+ * 登録されたフックを登録順に呼び出す
+ */
+export class HookRunner {
+  private hooks: FlashLoopHooks[];
+
+  constructor(hooks: FlashLoopHooks | FlashLoopHooks[] = []) {
+    this.hooks = Array.isArray(hooks) ? hooks : [hooks];
+  }
+
+  async observe(event: ObserveEvent, context: HookContext): Promise<void> {
+    for (const hook of this.hooks) await hook.onObserve?.(event, context);
+  }
+
+  async plan(plan: ActionPlan, context: HookContext): Promise<void> {
+    for (const hook of this.hooks) await hook.onPlan?.(plan, context);
+  }
+
+  /**
+   * 各フックの差し替えを順に適用し、最初の拒否・スキップ・終了で打ち切る
+   */
+  async beforeExecute(plan: ActionPlan, context: HookContext): Promise<ResolvedExecuteDecision> {
+    const resolved: ResolvedExecuteDecision = { plan, notes: [] };
+    for (const hook of this.hooks) {
+      const decision = await hook.beforeExecute?.(resolved.plan, context);
+      if (!decision) continue;
+      if (decision.note) resolved.notes.push(decision.note);
+      if (decision.plan) resolved.plan = decision.plan;
+      if (decision.veto !== undefined || decision.skip || decision.finish !== undefined) {
+        return {
+          ...resolved,
+          veto: decision.veto,
+          skip: decision.skip,
+          finish: decision.finish,
+        };
+      }
+    }
+    return resolved;
+  }
+
+  async afterExecute(
+    result: ExecutionResult,
+    plan: ActionPlan,
+    context: HookContext
+  ): Promise<void> {
+    for (const hook of this.hooks) await hook.afterExecute?.(result, plan, context);
+  }
+
+  async finish(result: RunResult): Promise<void> {
+    for (const hook of this.hooks) await hook.onFinish?.(result);
+  }
+}
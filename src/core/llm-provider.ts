@@ -0,0 +1,156 @@
+/**
+ * src/core/llm-provider.ts
+ * LLMプロバイダーの選択と LanguageModel インスタンスの生成を担う
+ */
+import { createCerebras } from '@ai-sdk/cerebras';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { LanguageModel } from 'ai';
+import { LLMOptions, LLMProviderEnum, LLMProviderName } from '../types';
+
+/**
+ * 環境変数・デフォルト値で補完済みのLLM設定
+ */
+export interface ResolvedLLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+interface ProviderSpec {
+  defaultModel: string;
+  defaultBaseURL?: string;
+  apiKeyEnv?: string; // プロバイダー固有のAPIキー環境変数
+  modelEnv: string; // プロバイダー固有のモデル名環境変数
+  baseURLEnv: string; // プロバイダー固有のベースURL環境変数
+  requiresApiKey: boolean;
+}
+
+const DEFAULT_PROVIDER: LLMProviderName = 'cerebras';
+
+const PROVIDER_SPECS: Record<LLMProviderName, ProviderSpec> = {
+  cerebras: {
+    defaultModel: 'llama3.1-70b',
+    apiKeyEnv: 'CEREBRAS_API_KEY',
+    modelEnv: 'CEREBRAS_MODEL',
+    baseURLEnv: 'CEREBRAS_BASE_URL',
+    requiresApiKey: true,
+  },
+  openai: {
+    defaultModel: 'gpt-4o-mini',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    modelEnv: 'OPENAI_MODEL',
+    baseURLEnv: 'OPENAI_BASE_URL',
+    requiresApiKey: true,
+  },
+  'openai-compatible': {
+    defaultModel: 'llama3.1-70b',
+    defaultBaseURL: 'http://localhost:8000/v1',
+    modelEnv: 'OPENAI_COMPATIBLE_MODEL',
+    baseURLEnv: 'OPENAI_COMPATIBLE_BASE_URL',
+    requiresApiKey: false,
+  },
+  ollama: {
+    defaultModel: 'llama3.1',
+    defaultBaseURL: 'http://localhost:11434/v1',
+    modelEnv: 'OLLAMA_MODEL',
+    baseURLEnv: 'OLLAMA_BASE_URL',
+    requiresApiKey: false,
+  },
+};
+
+/**
+ * 文字列をプロバイダー名として検証する
+ */
+export function parseProviderName(value: string): LLMProviderName {
+  const parsed = LLMProviderEnum.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(
+      `Unknown LLM provider: "${value}". Available: ${LLMProviderEnum.options.join(', ')}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * LLM_PROVIDER で選ばれるプロバイダー (未指定時はデフォルト)
+ */
+function getEnvProvider(): LLMProviderName {
+  return process.env.LLM_PROVIDER ? parseProviderName(process.env.LLM_PROVIDER) : DEFAULT_PROVIDER;
+}
+
+/**
+ * オプション > 環境変数 > プロバイダーのデフォルト の優先順で設定を解決する
+ *
+ * 参照する環境変数:
+ * - LLM_PROVIDER
+ * - プロバイダー固有の設定 (CEREBRAS_API_KEY, CEREBRAS_MODEL, OPENAI_BASE_URL, OLLAMA_MODEL など)
+ * - LLM_API_KEY, LLM_MODEL_NAME, LLM_BASE_URL (LLM_PROVIDER で選ばれるプロバイダーを使う場合のみ。
+ *   --provider で別のプロバイダーに切り替えたときに、別サービス向けのキーやモデル名を送らないため)
+ */
+export function resolveLLMConfig(options: LLMOptions = {}): ResolvedLLMConfig {
+  const provider = options.provider ?? getEnvProvider();
+  const spec = PROVIDER_SPECS[provider];
+  const isEnvProvider = provider === getEnvProvider();
+
+  const apiKey =
+    options.apiKey ||
+    (isEnvProvider ? process.env.LLM_API_KEY : undefined) ||
+    (spec.apiKeyEnv ? process.env[spec.apiKeyEnv] : undefined);
+
+  return {
+    provider,
+    model:
+      options.model ||
+      process.env[spec.modelEnv] ||
+      (isEnvProvider ? process.env.LLM_MODEL_NAME : undefined) ||
+      spec.defaultModel,
+    baseURL:
+      options.baseURL ||
+      process.env[spec.baseURLEnv] ||
+      (isEnvProvider ? process.env.LLM_BASE_URL : undefined) ||
+      spec.defaultBaseURL,
+    apiKey: apiKey || undefined,
+  };
+}
+
+/**
+ * 選択されたプロバイダーに必要なAPIキーが不足していればエラーメッセージを返す
+ */
+export function getMissingApiKeyMessage(config: ResolvedLLMConfig): string | null {
+  const spec = PROVIDER_SPECS[config.provider];
+  if (!spec.requiresApiKey || config.apiKey) return null;
+
+  const genericKey = config.provider === getEnvProvider() ? 'LLM_API_KEY' : undefined;
+  const envNames = [spec.apiKeyEnv, genericKey].filter(Boolean).join(' or ');
+  return `${envNames} is not set for provider "${config.provider}". Please create a .env file based on .env.example or pass --api-key.`;
+}
+
+/**
+ * 解決済みの設定から LanguageModel を生成する
+ */
+export function createLanguageModel(config: ResolvedLLMConfig): LanguageModel {
+  switch (config.provider) {
+    case 'cerebras':
+      return createCerebras({ apiKey: config.apiKey, baseURL: config.baseURL })(config.model);
+
+    case 'openai':
+      return createOpenAI({ apiKey: config.apiKey, baseURL: config.baseURL })(config.model);
+
+    case 'openai-compatible':
+    case 'ollama':
+      return createOpenAICompatible({
+        name: config.provider,
+        // ローカルサーバーはキー不要なことが多いため、指定時のみ送信する
+        apiKey: config.apiKey,
+        baseURL: config.baseURL || PROVIDER_SPECS[config.provider].defaultBaseURL!,
+        supportsStructuredOutputs: true,
+      })(config.model);
+
+    default: {
+      const unknown: never = config.provider;
+      throw new Error(`Unsupported LLM provider: ${unknown}`);
+    }
+  }
+}
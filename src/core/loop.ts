@@ -2,120 +2,613 @@
  * src/core/loop.ts
  * エージェントのメインループ
  */
-import { chromium, Browser } from 'playwright';
-import { Brain } from './brain';
+import { selectors, Browser, Page } from 'playwright';
+import { Brain, IBrain } from './brain';
+import { RecordingBrain, ReplayBrain } from './cassette';
 import { Observer } from './observer';
 import { Executor } from './executor';
 import { HistoryManager } from './history';
+import { SecretStore } from './secrets';
+import { captureSetOfMarks } from './vision';
+import { HookContext, HookRunner } from './hooks';
+import { SafetyPolicy } from './policy';
 import { ContextManager } from './context-manager';
-import { IGenerator, FileGenerator, MemoryGenerator } from '../tools/generator';
+import { BrowserSetup, resolveBrowserSetup } from './emulation';
+import { GeneratorOptions, IGenerator, MemoryGenerator, createGenerator } from '../tools/generator';
 import { ILogger, SpinnerLogger, ConsoleLogger } from '../tools/logger';
-import { FlashLoopOptions } from '../types';
+import { renderTypeScriptStep } from '../tools/codegen/typescript';
+import { TraceRecorder, TraceStep } from '../tools/tracer';
+import {
+  ActionPlan,
+  ElementContainer,
+  EmulationOptions,
+  ExecutionResult,
+  FlashLoopOptions,
+  NetworkEntry,
+  PageErrorEntry,
+  RunResult,
+  RunStatus,
+  RunStepRecord,
+  StartOptions,
+} from '../types';
+import { MAX_BATCH_ACTIONS } from '../constants';
 
 export class FlashLoop {
   private browser: Browser | null = null;
   private contextManager!: ContextManager;
-  private brain: Brain;
+  private brain: IBrain;
   private observer: Observer;
   private executor: Executor;
   private history: HistoryManager;
   private generator: IGenerator;
   private logger: ILogger;
+  private tracer: TraceRecorder | null;
+  private secrets: SecretStore;
+  private hooks: HookRunner;
+  private policy: SafetyPolicy | null;
   private options: FlashLoopOptions;
+  private browserSetup: BrowserSetup | null;
+  private extractedData: unknown = undefined;
 
   constructor(options: FlashLoopOptions) {
     this.options = options;
-    this.brain = new Brain();
-    this.observer = new Observer();
-    this.executor = new Executor();
+    this.observer = new Observer(options.selectors, {
+      mode: options.observationMode,
+      incremental: options.incrementalObservation,
+      tokenBudget: options.stateTokenBudget,
+    });
+    this.secrets = new SecretStore(options.secrets);
+    this.executor = new Executor(options.selectors, this.secrets);
     this.history = new HistoryManager();
+    this.hooks = new HookRunner(options.hooks);
+    this.policy = options.policy ? new SafetyPolicy(options.policy, options.confirmAction) : null;
+
+    const emulation: EmulationOptions = {
+      device: options.device,
+      viewport: options.viewport,
+      locale: options.locale,
+      timezoneId: options.timezoneId,
+      geolocation: options.geolocation,
+      colorScheme: options.colorScheme,
+    };
+    // Libraryモードでは呼び出し元のブラウザ・コンテキストをそのまま使う
+    this.browserSetup = options.page ? null : resolveBrowserSetup(options.browser, emulation);
+    const sharedEngine = options.sharedBrowser?.browserType().name();
+    if (this.browserSetup && sharedEngine && sharedEngine !== this.browserSetup.browserName) {
+      throw new Error(
+        `The shared browser is ${sharedEngine}, but this run requires ${this.browserSetup.browserName}.`
+      );
+    }
+
+    const generatorOptions: GeneratorOptions = {
+      testIdAttribute: options.selectors?.testIdAttribute,
+      harReplay: options.har?.mock
+        ? { path: options.har.path, urlFilter: options.har.urlFilter }
+        : undefined,
+      failOnPageError: options.failOnPageError,
+      storageState: options.storageState?.load,
+      // デバイスの既定エンジンと異なる場合も再現できるよう、chromium 以外か明示指定の場合に出力する
+      browser:
+        this.browserSetup && (options.browser || this.browserSetup.browserName !== 'chromium')
+          ? this.browserSetup.browserName
+          : undefined,
+      emulation:
+        this.browserSetup && Object.values(emulation).some((value) => value !== undefined)
+          ? emulation
+          : undefined,
+      outputPath: options.outputPath,
+    };
 
     if (options.page) {
       // Library mode
-      this.generator = new MemoryGenerator();
+      this.generator = new MemoryGenerator(generatorOptions);
       this.logger = options.logger || new ConsoleLogger();
       this.contextManager = new ContextManager(options.page.context());
     } else {
       // CLI mode
-      this.generator = new FileGenerator();
+      this.generator = options.generatorFactory
+        ? options.generatorFactory(generatorOptions)
+        : createGenerator(options.codegenTarget, generatorOptions);
       this.logger = options.logger || new SpinnerLogger();
     }
+
+    this.brain = this.createBrain();
+    this.tracer = options.trace ? new TraceRecorder(options.trace) : null;
+  }
+
+  /**
+   * カセット設定に応じて Brain を構築する
+   */
+  private createBrain(): IBrain {
+    const cassette = this.options.cassette;
+    if (cassette?.mode === 'replay') {
+      return new ReplayBrain(cassette.path, this.logger, cassette.strict);
+    }
+
+    const brain = new Brain(this.options.llm);
+    if (cassette?.mode === 'record') {
+      return new RecordingBrain(brain, cassette.path);
+    }
+    return brain;
+  }
+
+  /**
+   * ゴールに向けてループを実行する
+   * ステップ中の例外 (Brain・ジェネレータの失敗など) は status: 'error' の結果として返す
+   * ブラウザの起動・開始URLへの遷移などループ外の失敗は例外のまま投げる (CLIモードのブラウザはどちらの場合も閉じる)
+   */
+  async start(goal: string, runOptions: StartOptions = {}): Promise<RunResult> {
+    try {
+      return await this.run(goal, runOptions);
+    } finally {
+      await this.closeBrowser();
+    }
   }
 
-  async start(goal: string): Promise<string> {
+  private async run(goal: string, runOptions: StartOptions): Promise<RunResult> {
     this.logger.start(`🚀 FlashLoop: "${goal}"`);
+    this.extractedData = undefined;
 
-    // Setup Browser (CLI mode only)
-    if (!this.options.page) {
-      this.browser = await chromium.launch({ headless: this.options.headless });
-      const context = await this.browser.newContext();
-      const page = await context.newPage();
-      if (this.options.startUrl) await page.goto(this.options.startUrl);
+    // getByTestId が参照する属性 (Playwright全体の設定)
+    if (this.options.selectors?.testIdAttribute) {
+      selectors.setTestIdAttribute(this.options.selectors.testIdAttribute);
+    }
+
+    await this.secrets.load();
+
+    // 許可されていない開始URLでは、ブラウザを起動する前に中断する
+    const startUrlViolation =
+      !this.options.page && this.options.startUrl
+        ? this.policy?.checkPage(this.options.startUrl)
+        : null;
+    if (startUrlViolation) {
+      throw new Error(`Safety policy: Blocked the start URL: ${startUrlViolation}`);
+    }
 
+    // Setup Browser (CLI mode only)
+    if (this.browserSetup) {
+      const { browserType, contextOptions } = this.browserSetup;
+      this.browser =
+        this.options.sharedBrowser ??
+        (await browserType.launch({ headless: this.options.headless }));
+      const context = await this.browser.newContext({
+        ...contextOptions,
+        storageState: this.options.storageState?.load,
+      });
+      await context.newPage();
       this.contextManager = new ContextManager(context);
+    } else if (this.options.storageState?.load) {
+      // 既存のコンテキストに適用し、表示中のページは読み込み直して反映する
+      await this.contextManager.loadStorageState(this.options.storageState.load);
+      const page = this.contextManager.getActivePage();
+      if (page.url() !== 'about:blank') await page.reload();
+    }
+
+    // 開始URLへの遷移も記録できるよう、遷移前に HAR の記録を始める
+    if (this.options.har) {
+      await this.contextManager.recordHar(this.options.har);
+    }
+    if (!this.options.page && this.options.startUrl) {
+      await this.contextManager.getActivePage().goto(this.options.startUrl);
     }
 
     await this.generator.init(goal);
+    // 生成したテストが単独で再生できるよう、開始URLへの遷移も最初のステップとして記録する
+    if (!this.options.page && this.options.startUrl) {
+      await this.generator.appendStep({
+        actionType: 'navigate',
+        value: this.options.startUrl,
+        url: this.options.startUrl,
+      });
+    }
+    await this.tracer?.init(goal);
 
     let step = 0;
     const MAX_STEPS = this.options.maxSteps || 20;
     let lastError: string | undefined = undefined;
+    let status: RunStatus = 'max_steps';
+    let reason = `Reached the step limit (${MAX_STEPS}) before the goal was achieved.`;
+    const steps: RunStepRecord[] = [];
+    // 要素の順位付け用: more_elements で要求されたページ・直前の操作対象と思考
+    let elementPage = 0;
+    let lastTargetId: string | undefined;
+    let lastThought: string | undefined;
+    // 前回の観測以降の通信を観測結果に含めるための位置
+    let networkCursor = 0;
+    let errorCursor = 0;
+    const hookContext = (): HookContext => ({
+      goal,
+      step,
+      page: this.contextManager.getActivePage(),
+    });
 
     while (step < MAX_STEPS) {
       step++;
+      const stepStartedAt = Date.now();
+      const stepErrorCursor = this.contextManager.getErrorCursor();
       const activePage = this.contextManager.getActivePage();
-      this.logger.start(`Step ${step} [${await activePage.title()}] Observing...`);
-
-      // 1. Observe (Context aware)
-      const { stateText, elementMap } = await this.observer.captureState(activePage);
+      // URL・タイトルに展開済みのシークレットが含まれる場合 (navigate のクエリなど) はトレースに残さない
+      const stepTrace: TraceStep = {
+        step,
+        startedAt: new Date(stepStartedAt).toISOString(),
+        url: this.secrets.mask(activePage.url()),
+        title: this.secrets.mask(await activePage.title()),
+        actions: [],
+        timings: {},
+      };
+      this.logger.start(`Step ${step} [${stepTrace.title}] Observing...`);
 
-      const dialogInfo = this.contextManager.getPendingDialogInfo();
-      const stateWithDialog = dialogInfo ? `⚠️ ${dialogInfo}\n\n${stateText}` : stateText;
+      try {
+        // 1. Observe (Context aware)
+        // 直前のアクションが失敗した場合は差分ではなく全体を送り、状況を把握し直させる
+        const { stateText: rawStateText, elementMap } = await this.observer.captureState(
+          activePage,
+          {
+            full: lastError !== undefined,
+            ranking: {
+              goal,
+              hints: [...this.history.getHistory().slice(-3), lastThought ?? ''],
+              lastTargetId,
+              page: elementPage,
+            },
+          }
+        );
+        // 入力済みのシークレットが観測結果に現れても LLM には渡さない
+        const stateText = this.secrets.mask(rawStateText);
 
-      // 2. Think
-      this.logger.thought('Thinking...');
-      const plan = await this.brain.think(
-        goal,
-        stateWithDialog,
-        this.history.getHistory(),
-        lastError
-      );
+        const dialogInfo = this.contextManager.getPendingDialogInfo();
+        let stateWithDialog = dialogInfo ? `⚠️ ${dialogInfo}\n\n${stateText}` : stateText;
 
-      if (plan.isFinished) break;
+        const network = this.contextManager.getNetworkActivity(networkCursor);
+        networkCursor = this.contextManager.getNetworkCursor();
+        if (network.length > 0) {
+          stateWithDialog += `\n${this.secrets.mask(formatNetworkActivity(network))}\n`;
+        }
 
-      this.logger.action(plan.actionType, plan.targetId || 'page');
+        // 送信後に例外が握りつぶされた場合などに気付けるよう、新しいエラーを提示する
+        const pageErrors = this.contextManager.getPageErrors(errorCursor);
+        errorCursor = this.contextManager.getErrorCursor();
+        if (pageErrors.length > 0) {
+          stateWithDialog += `\n${this.secrets.mask(formatPageErrors(pageErrors))}\n`;
+        }
 
-      // 3. Execute (Locator-First)
-      const result = await this.executor.execute(plan, this.contextManager, elementMap);
+        // Vision: 番号付きの枠を描画したスクリーンショットと、番号 -> ID の対応表を渡す
+        // (ダイアログ表示中はページ操作がブロックされるため撮影しない)
+        let screenshot: Buffer | undefined;
+        const secretInputs = this.executor.getSecretInputs(activePage);
+        if (this.options.vision && !dialogInfo) {
+          const marks = await captureSetOfMarks(activePage, elementMap, secretInputs);
+          screenshot = marks.image;
+          if (marks.markCount > 0) {
+            stateWithDialog += `\nScreenshot Marks (number -> Virtual ID):\n${marks.legend}\n`;
+          }
+        }
 
-      if (result.success) {
-        this.logger.success(`Success: ${plan.thought}`);
-        this.history.add(`SUCCESS: ${plan.actionType}`);
-        lastError = undefined;
+        await this.hooks.observe(
+          { stateText: stateWithDialog, elementMap, screenshot },
+          hookContext()
+        );
 
-        if (result.generatedCode) {
-          await this.generator.appendCode(result.generatedCode, plan.thought);
+        stepTrace.stateText = stateWithDialog;
+        stepTrace.timings.observeMs = Date.now() - stepStartedAt;
+        if (this.tracer?.isScreenshotEnabled()) {
+          stepTrace.screenshot = await (
+            screenshot ? Promise.resolve(screenshot) : activePage.screenshot({ mask: secretInputs })
+          )
+            .then((image) => this.tracer!.saveScreenshot(step, image))
+            .catch(() => undefined);
         }
-      } else {
-        this.logger.fail(`Failed: ${result.error}`);
-        this.history.add(`ERROR: ${plan.actionType} failed. ${result.error}`);
-        lastError = result.userGuidance || result.error;
 
-        if (!result.retryable) {
+        // 2. Think
+        this.logger.thought('Thinking...');
+        const thinkStartedAt = Date.now();
+        const plan = await this.brain.think(
+          goal,
+          stateWithDialog,
+          this.history.getHistory(),
+          lastError,
+          screenshot
+        );
+        stepTrace.plan = plan;
+        stepTrace.timings.thinkMs = Date.now() - thinkStartedAt;
+        await this.hooks.plan(plan, hookContext());
+
+        if (plan.isFinished) {
+          status = 'success';
+          reason = plan.thought;
           break;
         }
+
+        // 3. Execute (Locator-First, バッチ内のアクションを順に実行)
+        const actions = this.expandBatch(plan);
+        if (actions.length > 1) {
+          this.logger.info(`📦 Batch: ${actions.length} actions planned`);
+        }
+
+        const batchPage = activePage;
+        const batchUrl = activePage.url();
+        let shouldStop = false;
+
+        for (const [index, planned] of actions.entries()) {
+          let action = planned;
+          if (index > 0) {
+            const interruption = await this.getBatchInterruption(
+              action,
+              elementMap,
+              batchPage,
+              batchUrl
+            );
+            if (interruption) {
+              const skipped = actions.length - index;
+              this.logger.info(
+                `Batch stopped early: ${interruption} (${skipped} action(s) skipped)`
+              );
+              this.history.add(
+                `BATCH STOPPED: ${interruption}. ${skipped} remaining action(s) were not executed.`
+              );
+              stepTrace.batchInterruption = interruption;
+              break;
+            }
+          }
+
+          if (action.isFinished) {
+            status = 'success';
+            reason = action.thought;
+            shouldStop = true;
+            break;
+          }
+
+          if (action.actionType === 'more_elements') {
+            // 実行せずに再観測し、次のページの要素を提示する
+            elementPage++;
+            this.history.add(`MORE ELEMENTS: showing element page ${elementPage + 1}`);
+            stepTrace.actions.push({
+              plan: action,
+              result: { success: true, retryable: true },
+              url: this.secrets.mask(activePage.url()),
+              durationMs: 0,
+            });
+            break;
+          }
+
+          // フックによるプランの差し替え・拒否
+          const decision = await this.hooks.beforeExecute(action, hookContext());
+          action = decision.plan;
+          for (const note of decision.notes) this.history.add(note);
+
+          if (decision.finish !== undefined) {
+            status = 'success';
+            reason = decision.finish;
+            shouldStop = true;
+            break;
+          }
+          if (decision.skip) {
+            this.logger.info(`Skipped: ${action.actionType} ${action.targetId ?? ''}`.trim());
+            break;
+          }
+
+          elementPage = 0;
+          lastTargetId = action.targetId;
+          lastThought = action.thought;
+
+          this.logger.action(action.actionType, action.targetId || 'page');
+
+          const executeStartedAt = Date.now();
+          const actionNetworkCursor = this.contextManager.getNetworkCursor();
+          const result = await this.executeAction(action, decision.veto, elementMap);
+          await this.hooks.afterExecute(result, action, hookContext());
+          stepTrace.actions.push({
+            plan: action,
+            result,
+            code: result.step ? renderTypeScriptStep(result.step) : undefined,
+            url: this.secrets.mask(this.contextManager.getActivePage().url()),
+            durationMs: Date.now() - executeStartedAt,
+            network: this.contextManager
+              .getNetworkActivity(actionNetworkCursor)
+              .map((entry) => ({ ...entry, url: this.secrets.mask(entry.url) })),
+          });
+
+          if (result.success) {
+            this.logger.success(`Success: ${action.thought}`);
+            this.history.add(`SUCCESS: ${action.actionType}`);
+            lastError = undefined;
+
+            if (result.extractedText !== undefined) {
+              await this.storeExtraction(goal, result.extractedText, runOptions);
+            }
+
+            if (result.step) {
+              await this.generator.appendStep(result.step, action.thought);
+            }
+          } else {
+            this.logger.fail(`Failed: ${result.error}`);
+            this.history.add(`ERROR: ${action.actionType} failed. ${result.error}`);
+            lastError = result.userGuidance || result.error;
+
+            // 失敗した時点でバッチの残りは破棄し、再観測させる
+            if (!result.retryable) {
+              status = 'stopped';
+              reason = `${action.actionType} failed with a non-retryable error: ${result.error}`;
+              shouldStop = true;
+            }
+            break;
+          }
+        }
+
+        if (shouldStop) break;
+      } catch (error) {
+        stepTrace.error = this.secrets.mask(String(error));
+        status = 'error';
+        reason = this.secrets.mask(error instanceof Error ? error.message : String(error));
+        this.logger.fail(`Step ${step} failed: ${reason}`);
+        break;
+      } finally {
+        stepTrace.timings.totalMs = Date.now() - stepStartedAt;
+        const stepErrors = this.contextManager.getPageErrors(stepErrorCursor);
+        if (stepErrors.length > 0) {
+          stepTrace.pageErrors = stepErrors.map((entry) => ({
+            ...entry,
+            message: this.secrets.mask(entry.message),
+            pageUrl: this.secrets.mask(entry.pageUrl),
+          }));
+        }
+        await this.tracer?.recordStep(stepTrace);
+        steps.push(toRunStepRecord(stepTrace));
       }
     }
 
     await this.generator.finish();
-    // ブラウザのクローズは cleanup() に委譲するか、ここで行う
-    // CLIモードの自動終了のためここでも呼ぶ
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
+    if (this.tracer) {
+      await this.tracer.finish(status === 'success' ? 'finished' : status);
+      this.logger.info(`🔍 Trace saved: ${this.tracer.getOutput()}`);
+    }
+    if (this.options.cassette?.mode === 'record') {
+      this.logger.info(`📼 Cassette saved: ${this.options.cassette.path}`);
     }
 
-    return this.generator.getOutput();
+    const result: RunResult = {
+      status,
+      reason,
+      stepCount: steps.length,
+      steps,
+      code: await this.generator.getCode(),
+      outputPath: this.options.page ? undefined : this.generator.getOutput(),
+      extractedData: this.extractedData,
+      finalUrl: this.secrets.mask(this.contextManager.getActivePage().url()),
+    };
+    // ログインに失敗した状態で既存のファイルを上書きしないよう、ゴール達成時のみ保存する
+    const saveStorageState = this.options.storageState?.save;
+    if (saveStorageState && status === 'success') {
+      await this.contextManager.saveStorageState(saveStorageState);
+      this.logger.info(`🔑 Storage state saved: ${saveStorageState}`);
+    } else if (saveStorageState) {
+      this.logger.info('🔑 Storage state was not saved because the goal was not achieved.');
+    }
+    await this.hooks.finish(result);
+    return result;
+  }
+
+  /**
+   * CLIモードで起動したブラウザを閉じる (共有ブラウザの場合はこのランのコンテキストのみ)
+   */
+  private async closeBrowser(): Promise<void> {
+    if (!this.browser) return;
+    await this.contextManager?.close();
+    if (this.options.har) this.logger.info(`🌐 HAR saved: ${this.options.har.path}`);
+    if (!this.options.sharedBrowser) await this.browser.close();
+    this.browser = null;
+  }
+
+  /**
+   * フックの拒否・安全ポリシーを確認してからアクションを実行する
+   * ブロックした場合は、理由をエラーとして Brain に返す
+   */
+  private async executeAction(
+    action: ActionPlan,
+    veto: string | undefined,
+    elementMap: Map<string, ElementContainer>
+  ): Promise<ExecutionResult> {
+    if (veto !== undefined) return blockedResult(`Action was blocked: ${veto}`);
+
+    const page = this.contextManager.getActivePage();
+    const urlBefore = page.url();
+    const violation = await this.policy?.check(action, elementMap, urlBefore);
+    if (violation) return blockedResult(`Safety policy: ${violation}`);
+
+    const result = await this.executor.execute(action, this.contextManager, elementMap);
+
+    // 遷移後のページも検査し、許可されていなければ元のページに戻す
+    const landedPage = this.contextManager.getActivePage();
+    const landingViolation = result.success ? this.policy?.checkPage(landedPage.url()) : null;
+    if (landingViolation) {
+      if (landedPage !== page) await this.contextManager.closeActiveTab();
+      else await page.goto(urlBefore);
+      return blockedResult(
+        this.secrets.mask(
+          `Safety policy: Blocked ${action.actionType} that led to a disallowed page: ${landingViolation} The previous page was restored.`
+        )
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 読み取ったテキストを構造化し、これまでの抽出結果に統合する
+   */
+  private async storeExtraction(
+    goal: string,
+    text: string,
+    runOptions: StartOptions
+  ): Promise<void> {
+    const content = this.secrets.mask(text);
+    if (!runOptions.extractSchema) {
+      this.extractedData =
+        typeof this.extractedData === 'string' ? `${this.extractedData}\n${content}` : content;
+      this.history.add(`EXTRACTED: ${content.length} characters of text`);
+      return;
+    }
+
+    this.logger.thought('Structuring extracted data...');
+    this.extractedData = await this.brain.extract(
+      goal,
+      content,
+      runOptions.extractSchema,
+      this.extractedData
+    );
+    const summary = JSON.stringify(this.extractedData);
+    this.history.add(
+      `EXTRACTED: ${summary.length > 300 ? `${summary.slice(0, 300)}...` : summary}`
+    );
+  }
+
+  /**
+   * バッチプランを、順に実行する単一アクションのリストに展開する
+   */
+  private expandBatch(plan: ActionPlan): ActionPlan[] {
+    const { followUpActions = [], ...primary } = plan;
+
+    const followUps = followUpActions.slice(0, MAX_BATCH_ACTIONS - 1).map((action) => ({
+      ...action,
+      thought: action.thought || plan.thought,
+      isFinished: action.actionType === 'finish',
+    }));
+
+    return [primary, ...followUps];
+  }
+
+  /**
+   * バッチの後続アクションを実行してよいか判定し、中断すべき場合はその理由を返す
+   */
+  private async getBatchInterruption(
+    action: ActionPlan,
+    elementMap: Map<string, ElementContainer>,
+    batchPage: Page,
+    batchUrl: string
+  ): Promise<string | null> {
+    if (this.contextManager.getPendingDialogInfo()) {
+      return 'a dialog appeared';
+    }
+
+    const activePage = this.contextManager.getActivePage();
+    if (activePage !== batchPage) {
+      return 'the active tab changed';
+    }
+    if (activePage.url() !== batchUrl) {
+      return `the page navigated to ${this.secrets.mask(activePage.url())}`;
+    }
+
+    for (const id of [action.targetId, action.targetId2]) {
+      if (!id) continue;
+      const target = elementMap.get(id);
+      const isAttached = target
+        ? await target.handle.evaluate((el) => el.isConnected).catch(() => false)
+        : false;
+      if (!isAttached) {
+        return `target ${id} is no longer attached to the page`;
+      }
+    }
+
+    return null;
   }
 
   /**
@@ -125,7 +618,9 @@ export class FlashLoop {
   async cleanup(): Promise<void> {
     if (this.browser) {
       try {
-        await this.browser.close();
+        // 共有ブラウザの場合は、このランのコンテキストだけを閉じる
+        if (this.options.sharedBrowser) await this.contextManager?.close();
+        else await this.browser.close();
       } catch {
         // すでに閉じられている場合は無視
       }
@@ -134,3 +629,66 @@ export class FlashLoop {
     // 将来的にイベントリスナーの解除などが必要になればここに追記
   }
 }
+
+/**
+ * トレース用の記録から、実行結果に含めるステップ記録を作る
+ */
+function toRunStepRecord(trace: TraceStep): RunStepRecord {
+  return {
+    step: trace.step,
+    url: trace.url,
+    thought: trace.plan?.thought,
+    pageErrors: trace.pageErrors,
+    actions: trace.actions.map(({ plan, result, code }) => ({
+      actionType: plan.actionType,
+      targetId: plan.targetId,
+      success: result.success,
+      error: result.error,
+      code,
+    })),
+  };
+}
+
+const MAX_NETWORK_LINES = 10;
+const MAX_ERROR_LINES = 10;
+
+/**
+ * 観測結果に含める「直近の通信」セクション (新しいものを優先して表示)
+ */
+function formatNetworkActivity(entries: NetworkEntry[]): string {
+  const shown = entries.slice(-MAX_NETWORK_LINES);
+  const lines = shown.map((entry) => {
+    const url = entry.url.length > 150 ? `${entry.url.slice(0, 150)}...` : entry.url;
+    const outcome = entry.failure ? `failed (${entry.failure})` : String(entry.status);
+    return `- ${entry.method} ${url} -> ${outcome}`;
+  });
+  if (entries.length > shown.length) {
+    lines.unshift(`- (${entries.length - shown.length} earlier request(s) omitted)`);
+  }
+  return `Recent Network Activity (XHR/fetch since the last observation):\n${lines.join('\n')}`;
+}
+
+/**
+ * 観測結果に含める「新しいページエラー」セクション
+ */
+function formatPageErrors(entries: PageErrorEntry[]): string {
+  const shown = entries.slice(-MAX_ERROR_LINES);
+  const lines = shown.map((entry) => {
+    const firstLine = entry.message.split('\n')[0];
+    const message = firstLine.length > 200 ? `${firstLine.slice(0, 200)}...` : firstLine;
+    return `- [${entry.type}] ${message}`;
+  });
+  if (entries.length > shown.length) {
+    lines.unshift(`- (${entries.length - shown.length} earlier error(s) omitted)`);
+  }
+  return `⚠️ New Page Errors (since the last observation):\n${lines.join('\n')}`;
+}
+
+function blockedResult(message: string): ExecutionResult {
+  return {
+    success: false,
+    error: message,
+    userGuidance: `${message} Choose a different action.`,
+    retryable: true,
+  };
+}
@@ -3,8 +3,17 @@
  * DOMの状態を観測し、永続的なIDを割り振る
  */
 import { Page, Frame, ElementHandle } from 'playwright';
-import { ObservationResult, ElementContainer, SelectorCandidates } from '../types';
-import { DOM_WAIT_TIMEOUT_MS } from '../constants';
+import {
+  ObservationMode,
+  ObservationResult,
+  ElementContainer,
+  ScopeCandidate,
+  SelectorCandidates,
+  SelectorOptions,
+} from '../types';
+import { DEFAULT_TEST_ID_ATTRIBUTE, DOM_WAIT_TIMEOUT_MS } from '../constants';
+import { AriaNode, parseAriaSnapshot } from './aria-snapshot';
+import { RankingContext, StateLine, estimateTokens, fitStateToBudget } from './ranker';
 
 // ブラウザ内で生成・返却されるメタデータの型定義
 interface ElementMetadataInfo {
@@ -14,7 +23,9 @@ interface ElementMetadataInfo {
   description: string;
   isScrollable: boolean;
   isInViewport: boolean;
+  boundingBox: { x: number; y: number; width: number; height: number };
   selectors: SelectorCandidates;
+  scopes: ScopeCandidate[];
   // Semantic ID 生成用
   attributes: Record<string, string>;
   textContent: string;
@@ -39,18 +50,180 @@ const VALID_ARIA_ROLES = [
   'heading',
 ];
 
+// ARIA モードで Virtual ID を割り当てるロール (DOM モードの対象 + ARIA 固有のウィジェット)
+const ARIA_TARGET_ROLES = new Set([
+  ...VALID_ARIA_ROLES,
+  'searchbox',
+  'listbox',
+  'menuitemcheckbox',
+  'menuitemradio',
+]);
+
+// スコープ付きロケータの起点とするコンテナのロール
+const SCOPE_ROLES = [
+  'row',
+  'listitem',
+  'article',
+  'dialog',
+  'group',
+  'region',
+  'form',
+  'tabpanel',
+  'cell',
+];
+
+// スコープとして遡る祖先の最大数
+const MAX_SCOPES = 3;
+
+// 差分が前回の要素数に対してこの割合を超える場合は、差分ではなく全体を送る
+const MAX_DIFF_RATIO = 0.5;
+
+// 差分表示時、変化のなかった要素の名前を切り詰める長さ
+const UNCHANGED_NAME_LENGTH = 24;
+
+export interface ObserverOptions {
+  mode?: ObservationMode; // デフォルト: dom
+  incremental?: boolean; // 前回の観測との差分のみを返す
+  tokenBudget?: number; // 要素一覧のトークン予算 (超過時は関連度の高い要素から表示)
+}
+
+/**
+ * 1回の観測で LLM に提示した内容
+ */
+export interface ObservedSnapshot {
+  url: string;
+  entries: Map<string, string>; // Virtual ID -> 表示行
+  texts: string[]; // ID を持たない行 (静的テキスト・ステータスメッセージ・エラー表示など)
+}
+
+/**
+ * 前回の観測からの変化
+ */
+export interface ObservationDiff {
+  changes: string[]; // "+ 行" / "~ 行" / "- 行"
+  unchangedIds: string[];
+}
+
 export class Observer {
   // 永続化された要素マップ (Semantic Hash -> Container)
   private persistentElementMap: Map<string, ElementContainer> = new Map();
+  private testIdAttribute: string;
+  private mode: ObservationMode;
+  private incremental: boolean;
+  private tokenBudget?: number;
+  private lastSnapshot: ObservedSnapshot | null = null;
+
+  constructor(selectorOptions: SelectorOptions = {}, observerOptions: ObserverOptions = {}) {
+    this.testIdAttribute = selectorOptions.testIdAttribute || DEFAULT_TEST_ID_ATTRIBUTE;
+    this.mode = observerOptions.mode ?? 'dom';
+    this.incremental = observerOptions.incremental ?? false;
+    this.tokenBudget = observerOptions.tokenBudget;
+  }
 
   /**
    * 現在のページ状態をキャプチャし、永続マップを更新して返す
+   * incremental 有効時は前回との差分を返す (ページ遷移後・full 指定時・2ページ目以降の要素の要求時は全体)
+   * tokenBudget 設定時は ranking (ゴール・履歴) に基づいて要素を絞り込む
    */
-  async captureState(page: Page): Promise<ObservationResult> {
+  async captureState(
+    page: Page,
+    options: { full?: boolean; ranking?: RankingContext } = {}
+  ): Promise<ObservationResult> {
     await this.waitForStability(page);
 
+    // 再スキャンで消える可能性があるため、直前に操作した要素の位置を先に控えておく
+    const anchor = options.ranking?.lastTargetId
+      ? this.persistentElementMap.get(options.ranking.lastTargetId)?.boundingBox
+      : undefined;
+    const budget = (lines: StateLine[]) =>
+      this.applyBudget(lines, options.ranking ?? { goal: '', hints: [] }, anchor);
+
+    const { stateText, entries, texts } =
+      this.mode === 'aria'
+        ? await this.captureAriaState(page, budget)
+        : await this.captureDomState(page, budget);
+
+    const previous = this.lastSnapshot;
+    const current: ObservedSnapshot = { url: page.url(), entries, texts };
+    this.lastSnapshot = current;
+
+    // more_elements で次のページを要求された場合、差分では新しい要素を提示できないため全体を送る
+    const requestsMore = (options.ranking?.page ?? 0) > 0;
+    if (
+      !this.incremental ||
+      options.full ||
+      requestsMore ||
+      !previous ||
+      previous.url !== page.url()
+    ) {
+      return { stateText, elementMap: this.persistentElementMap };
+    }
+
+    const diff = diffSnapshots(previous, current);
+    const diffText = diff ? await this.renderDiff(page, diff) : null;
+    // 差分の方が予算を超える場合は、絞り込み済みの全体を送る
+    if (!diffText || (this.tokenBudget && estimateTokens(diffText) > this.tokenBudget)) {
+      return { stateText, elementMap: this.persistentElementMap };
+    }
+    return { stateText: diffText, elementMap: this.persistentElementMap, isIncremental: true };
+  }
+
+  /**
+   * トークン予算に収まるよう要素一覧を絞り込む (予算未設定の場合はそのまま)
+   */
+  private applyBudget(
+    lines: StateLine[],
+    ranking: RankingContext,
+    anchor?: ElementContainer['boundingBox']
+  ): string[] {
+    if (!this.tokenBudget) return lines.map((line) => line.text);
+    const { lines: shown, summary } = fitStateToBudget(
+      lines,
+      this.persistentElementMap,
+      ranking,
+      this.tokenBudget,
+      anchor
+    );
+    return summary ? [...shown, `\n... ${summary}`] : shown;
+  }
+
+  /**
+   * 前回の観測との差分を描画する
+   */
+  private async renderDiff(page: Page, diff: ObservationDiff): Promise<string> {
+    const { changes, unchangedIds: unchanged } = diff;
+
+    // 変化のない要素は ID と短い名前のみ列挙する
+    const unchangedSummary = unchanged.map((id) => {
+      const name = this.persistentElementMap.get(id)?.description.replace(/\s+/g, ' ') ?? '';
+      const shortName =
+        name.length > UNCHANGED_NAME_LENGTH ? `${name.slice(0, UNCHANGED_NAME_LENGTH)}…` : name;
+      return `${id} "${shortName}"`;
+    });
+
+    const title = await page.title().catch(() => 'No Title');
+    return `
+Page Title: ${title}
+URL: ${page.url()}
+
+Changes since the previous observation (+ added, ~ changed, - removed or out of view):
+${changes.length > 0 ? changes.join('\n') : '(No changes)'}
+
+Unchanged (${unchanged.length}, same IDs as before):
+${unchangedSummary.length > 0 ? unchangedSummary.join(', ') : '(none)'}
+`;
+  }
+
+  /**
+   * 独自のDOM走査に基づいて観測する
+   */
+  private async captureDomState(
+    page: Page,
+    budget: (lines: StateLine[]) => string[]
+  ): Promise<{ stateText: string; entries: Map<string, string>; texts: string[] }> {
     const currentScanIds = new Set<string>();
-    const yamlLines: string[] = [];
+    const stateLines: StateLine[] = [];
+    const entries = new Map<string, string>();
     let hiddenItemCount = 0;
 
     const frames = page.frames();
@@ -93,10 +266,12 @@ export class Observer {
           frameSelectorChain,
           xpath: item.metadata.xpath,
           selectors: item.metadata.selectors,
+          scopes: item.metadata.scopes,
           description: item.metadata.description,
           tagName: item.metadata.tagName,
           isScrollable: item.metadata.isScrollable,
           isInViewport: item.metadata.isInViewport,
+          boundingBox: item.metadata.boundingBox,
         };
 
         // マップ更新（常に最新のハンドルで上書き）
@@ -116,7 +291,8 @@ export class Observer {
           if (frameSelectorChain.length > 0) extra.push('in Iframe');
 
           if (extra.length > 0) line += ` (${extra.join(', ')})`;
-          yamlLines.push(line);
+          stateLines.push({ text: line, id });
+          entries.set(id, line.slice(2));
         } else {
           hiddenItemCount++;
         }
@@ -130,6 +306,7 @@ export class Observer {
       }
     }
 
+    const yamlLines = budget(stateLines);
     if (hiddenItemCount > 0) {
       yamlLines.push(
         `\n... (${hiddenItemCount} more items are currently not visible/outside viewport. Use 'scroll' to explore.)`
@@ -145,7 +322,8 @@ Interactive Elements (Viewport):
 ${yamlLines.length > 0 ? yamlLines.join('\n') : '(No interactive elements found in viewport)'}
 `;
 
-    return { stateText, elementMap: this.persistentElementMap };
+    // DOM モードは操作可能な要素のみを列挙するため、ID を持たない行は無い
+    return { stateText, entries, texts: [] };
   }
 
   private async waitForStability(page: Page) {
@@ -157,8 +335,205 @@ ${yamlLines.length > 0 ? yamlLines.join('\n') : '(No interactive elements found
     }
   }
 
-  private async scanFrame(frame: Frame) {
-    // フレームセレクタチェーンの構築
+  /**
+   * ARIA スナップショットに基づいて観測する
+   * ロール・名前・状態 (checked, expanded, disabled 等)・階層をそのまま LLM に提示し、
+   * 操作対象のロールには getByRole で解決した要素に Virtual ID を割り当てる
+   */
+  private async captureAriaState(
+    page: Page,
+    budget: (lines: StateLine[]) => string[]
+  ): Promise<{ stateText: string; entries: Map<string, string>; texts: string[] }> {
+    const currentScanIds = new Set<string>();
+    const stateLines: StateLine[] = [];
+    const entries = new Map<string, string>();
+    const texts: string[] = [];
+    const hashCounter = new Map<string, number>();
+
+    for (const frame of page.frames()) {
+      let frameSelectorChain: string[];
+      let roots: AriaNode[];
+      try {
+        frameSelectorChain = await this.getFrameSelectorChain(frame);
+        const snapshot = await frame.locator('body').ariaSnapshot({ timeout: DOM_WAIT_TIMEOUT_MS });
+        roots = parseAriaSnapshot(snapshot);
+      } catch {
+        if (process.env.DEBUG) {
+          console.debug('Skipped inaccessible frame:', frame.url());
+        }
+        continue;
+      }
+      if (roots.length === 0) continue;
+
+      // getByRole(...).nth() で解決するための出現回数 (名前あり: ロール+名前ごと、名前なし: ロールごと)
+      const occurrences = new Map<string, number>();
+      const nextIndex = (key: string) => {
+        const index = occurrences.get(key) ?? 0;
+        occurrences.set(key, index + 1);
+        return index;
+      };
+
+      let frameLine: number | undefined;
+      if (frameSelectorChain.length > 0) {
+        frameLine = stateLines.length;
+        stateLines.push({ text: `- iframe "${frameSelectorChain.join(' > ')}":` });
+      }
+
+      const visit = async (node: AriaNode, indent: string, parent?: number) => {
+        let line = `${indent}- ${node.role}`;
+        let id: string | undefined;
+        if (node.name) line += ` "${node.name.replace(/\n/g, ' ').slice(0, 80)}"`;
+        for (const state of node.states) line += ` [${state}]`;
+
+        if (ARIA_TARGET_ROLES.has(node.role)) {
+          const roleIndex = nextIndex(node.role);
+          const index = node.name ? nextIndex(`${node.role}|${node.name}`) : roleIndex;
+          const container = await this.resolveAriaNode(
+            frame,
+            frameSelectorChain,
+            node,
+            index,
+            hashCounter
+          );
+          if (container) {
+            id = container.id;
+            currentScanIds.add(container.id);
+            this.persistentElementMap.set(container.id, container);
+            line += ` [ID: ${container.id}]`;
+            if (!container.isInViewport) line += ' (offscreen)';
+          }
+        }
+
+        if (node.text) line += `: ${node.text.replace(/\n/g, ' ').slice(0, 80)}`;
+        const index = stateLines.length;
+        stateLines.push({ text: line, id, parent });
+        if (id) entries.set(id, line.trim().slice(2));
+        else texts.push(line.trim().slice(2));
+
+        for (const child of node.children) await visit(child, `${indent}  `, index);
+      };
+
+      const baseIndent = frameLine !== undefined ? '  ' : '';
+      for (const root of roots) await visit(root, baseIndent, frameLine);
+    }
+
+    for (const id of this.persistentElementMap.keys()) {
+      if (!currentScanIds.has(id)) {
+        this.persistentElementMap.delete(id);
+      }
+    }
+
+    const treeLines = budget(stateLines);
+    const title = await page.title().catch(() => 'No Title');
+    const stateText = `
+Page Title: ${title}
+URL: ${page.url()}
+
+Accessibility Tree (role "name" [state] [ID]):
+${treeLines.length > 0 ? treeLines.join('\n') : '(Empty accessibility tree)'}
+`;
+
+    return { stateText, entries, texts };
+  }
+
+  /**
+   * ARIA ノードを実際の要素に解決し、コンテナを生成する
+   */
+  private async resolveAriaNode(
+    frame: Frame,
+    frameSelectorChain: string[],
+    node: AriaNode,
+    index: number,
+    hashCounter: Map<string, number>
+  ): Promise<ElementContainer | null> {
+    const role = node.role as Parameters<Frame['getByRole']>[0];
+    const locator = node.name
+      ? frame.getByRole(role, { name: node.name, exact: true }).nth(index)
+      : frame.getByRole(role).nth(index);
+    const handle = await locator.elementHandle({ timeout: 1000 }).catch(() => null);
+    if (!handle) return null;
+
+    const info = await handle.evaluate((el, testIdAttribute) => {
+      const rect = el.getBoundingClientRect();
+      const getXPath = (element: Element): string => {
+        if (element.id !== '') return `//*[@id="${element.id.replace(/"/g, '\\"')}"]`;
+        if (element === document.body || !element.parentElement) return '/html/body';
+        const sameTag = Array.from(element.parentElement.children).filter(
+          (sibling) => sibling.tagName === element.tagName
+        );
+        return `${getXPath(element.parentElement)}/${element.tagName.toLowerCase()}[${sameTag.indexOf(element) + 1}]`;
+      };
+      return {
+        xpath: getXPath(el),
+        tagName: el.tagName.toLowerCase(),
+        testId: el.getAttribute(testIdAttribute),
+        placeholder: el.getAttribute('placeholder'),
+        inputType: el.getAttribute('type'),
+        nameAttr: el.getAttribute('name'),
+        isScrollable: el.scrollHeight > el.clientHeight && el.clientHeight > 0,
+        boundingBox: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+        isInViewport:
+          rect.top < window.innerHeight &&
+          rect.bottom > 0 &&
+          rect.left < window.innerWidth &&
+          rect.right > 0,
+      };
+    }, this.testIdAttribute);
+
+    const selectors: SelectorCandidates = {};
+    if (info.testId) selectors.testId = info.testId;
+    if (info.placeholder) selectors.placeholder = info.placeholder;
+    if (node.name) selectors.role = { role: node.role, name: node.name };
+
+    const attributes: Record<string, string> = { role: node.role };
+    if (info.inputType) attributes['type'] = info.inputType;
+    if (info.nameAttr) attributes['name'] = info.nameAttr;
+
+    const rawHash = this.generateSemanticHash({
+      tagName: info.tagName,
+      selectors,
+      attributes,
+      textContent: (node.name || node.text || '').slice(0, 50),
+    });
+    const count = (hashCounter.get(rawHash) || 0) + 1;
+    hashCounter.set(rawHash, count);
+
+    return {
+      id: `${info.tagName}-${rawHash}-${count}`,
+      handle,
+      frame,
+      frameSelectorChain,
+      xpath: info.xpath,
+      selectors,
+      scopes: this.getAriaScopes(node),
+      description: [node.role, node.name, ...node.states].filter(Boolean).join(' '),
+      tagName: info.tagName,
+      isScrollable: info.isScrollable,
+      isInViewport: info.isInViewport,
+      boundingBox: info.boundingBox,
+    };
+  }
+
+  /**
+   * ARIA ツリー上の祖先から、スコープ付きロケータ用のコンテナを収集する
+   */
+  private getAriaScopes(node: AriaNode): ScopeCandidate[] {
+    const scopes: ScopeCandidate[] = [];
+    for (let p = node.parent; p && scopes.length < MAX_SCOPES; p = p.parent) {
+      if (!SCOPE_ROLES.includes(p.role)) continue;
+      const scope: ScopeCandidate = { role: p.role };
+      if (p.name) scope.name = p.name;
+      const hasText = findFirstText(p, node.name);
+      if (hasText) scope.hasText = hasText;
+      scopes.push(scope);
+    }
+    return scopes;
+  }
+
+  /**
+   * フレームセレクタチェーンの構築 (トップフレームから対象フレームまで)
+   */
+  private async getFrameSelectorChain(frame: Frame): Promise<string[]> {
     const frameSelectorChain: string[] = [];
     let currentFrame = frame;
     while (currentFrame.parentFrame()) {
@@ -173,165 +548,270 @@ ${yamlLines.length > 0 ? yamlLines.join('\n') : '(No interactive elements found
       }
       currentFrame = parent;
     }
+    return frameSelectorChain;
+  }
+
+  private async scanFrame(frame: Frame) {
+    const frameSelectorChain = await this.getFrameSelectorChain(frame);
 
     // --- ブラウザ内でのDOM解析 ---
-    const resultHandle = await frame.evaluateHandle((validRoles) => {
-      interface FoundItem {
-        element: Element;
-        metadata: ElementMetadataInfo;
-      }
-      const foundItems: FoundItem[] = [];
-      const validRoleSet = new Set(validRoles);
-      const viewportHeight = window.innerHeight;
-      const viewportWidth = window.innerWidth;
-
-      function isVisibleStyle(el: Element): boolean {
-        const style = window.getComputedStyle(el);
-        const rect = el.getBoundingClientRect();
-        return (
-          style.display !== 'none' &&
-          style.visibility !== 'hidden' &&
-          style.opacity !== '0' &&
-          rect.width > 0 &&
-          rect.height > 0
-        );
-      }
+    const resultHandle = await frame.evaluateHandle(
+      ({ validRoles, scopeRoles, maxScopes, testIdAttribute }) => {
+        interface FoundItem {
+          element: Element;
+          metadata: ElementMetadataInfo;
+        }
+        const foundItems: FoundItem[] = [];
+        const validRoleSet = new Set(validRoles);
+        const scopeRoleSet = new Set(scopeRoles);
+        const viewportHeight = window.innerHeight;
+        const viewportWidth = window.innerWidth;
+
+        function isVisibleStyle(el: Element): boolean {
+          const style = window.getComputedStyle(el);
+          const rect = el.getBoundingClientRect();
+          return (
+            style.display !== 'none' &&
+            style.visibility !== 'hidden' &&
+            style.opacity !== '0' &&
+            rect.width > 0 &&
+            rect.height > 0
+          );
+        }
 
-      function isInViewport(el: Element): boolean {
-        const rect = el.getBoundingClientRect();
-        return (
-          rect.top < viewportHeight &&
-          rect.bottom > 0 &&
-          rect.left < viewportWidth &&
-          rect.right > 0
-        );
-      }
+        function isInViewport(el: Element): boolean {
+          const rect = el.getBoundingClientRect();
+          return (
+            rect.top < viewportHeight &&
+            rect.bottom > 0 &&
+            rect.left < viewportWidth &&
+            rect.right > 0
+          );
+        }
 
-      function getXPath(element: Element): string {
-        if (element.id !== '') return `//*[@id="${element.id.replace(/"/g, '\\"')}"]`;
-        if (element === document.body) return '/html/body';
-        let ix = 0;
-        const siblings = element.parentNode?.childNodes;
-        if (!siblings) return '';
-        for (let i = 0; i < siblings.length; i++) {
-          const sibling = siblings[i];
-          if (sibling === element) {
-            const parentPath = element.parentNode ? getXPath(element.parentNode as Element) : '';
-            return `${parentPath}/${element.tagName.toLowerCase()}[${ix + 1}]`;
-          }
-          if (sibling.nodeType === 1 && (sibling as Element).tagName === element.tagName) {
-            ix++;
+        function getXPath(element: Element): string {
+          if (element.id !== '') return `//*[@id="${element.id.replace(/"/g, '\\"')}"]`;
+          if (element === document.body) return '/html/body';
+          let ix = 0;
+          const siblings = element.parentNode?.childNodes;
+          if (!siblings) return '';
+          for (let i = 0; i < siblings.length; i++) {
+            const sibling = siblings[i];
+            if (sibling === element) {
+              const parentPath = element.parentNode ? getXPath(element.parentNode as Element) : '';
+              return `${parentPath}/${element.tagName.toLowerCase()}[${ix + 1}]`;
+            }
+            if (sibling.nodeType === 1 && (sibling as Element).tagName === element.tagName) {
+              ix++;
+            }
           }
+          return '';
         }
-        return '';
-      }
 
-      function traverse(root: Document | ShadowRoot | Element) {
-        const children = root.querySelectorAll('*');
-        children.forEach((el) => {
-          checkElement(el);
-          if (el.shadowRoot) {
-            traverse(el.shadowRoot);
+        function getImplicitScopeRole(el: Element): string | null {
+          const tag = el.tagName.toLowerCase();
+          const named = el.hasAttribute('aria-label') || el.hasAttribute('aria-labelledby');
+          if (tag === 'tr') return 'row';
+          if (tag === 'li') return 'listitem';
+          if (tag === 'td') return 'cell';
+          if (tag === 'article' || tag === 'dialog') return tag;
+          if (tag === 'fieldset') return 'group';
+          // section / form は名前を持つ場合のみロールが付与される
+          if (tag === 'section' && named) return 'region';
+          if (tag === 'form' && named) return 'form';
+          return null;
+        }
+
+        // コンテナのテキスト行 (同じコンテナを共有する要素が多いためキャッシュする)
+        const textLinesCache = new Map<Element, string[]>();
+        function getTextLines(node: Element): string[] {
+          let lines = textLinesCache.get(node);
+          if (!lines) {
+            lines = ((node as HTMLElement).innerText || '')
+              .split('\n')
+              .map((line) => line.replace(/\s+/g, ' ').trim())
+              .filter(Boolean);
+            textLinesCache.set(node, lines);
           }
-        });
-      }
+          return lines;
+        }
 
-      function checkElement(el: Element) {
-        if (!isVisibleStyle(el)) return;
-
-        const tagName = el.tagName.toLowerCase();
-        const style = window.getComputedStyle(el);
-        const roleAttr = el.getAttribute('role');
-
-        const isScrollable =
-          el.scrollHeight > el.clientHeight &&
-          (style.overflowY === 'scroll' || style.overflowY === 'auto');
-
-        const isInteractive =
-          ['button', 'a', 'input', 'select', 'textarea', 'details', 'summary'].includes(tagName) ||
-          validRoleSet.has(roleAttr || '') ||
-          el.getAttribute('contenteditable') === 'true' ||
-          style.cursor === 'pointer' ||
-          isScrollable;
-
-        if (!isInteractive) return;
-
-        let text = (el as HTMLElement).innerText || (el as HTMLInputElement).value || '';
-        const inputType = el.getAttribute('type');
-        const autocomplete = el.getAttribute('autocomplete');
-
-        if (
-          tagName === 'input' &&
-          ((inputType && ['password', 'email', 'tel'].includes(inputType)) ||
-            (autocomplete &&
-              (autocomplete.includes('password') ||
-                autocomplete === 'email' ||
-                autocomplete.startsWith('cc-'))))
-        ) {
-          text = '[REDACTED]';
+        /**
+         * 祖先のコンテナを近い順に収集する (シャドウDOMの境界も越える)
+         */
+        function getScopes(el: Element, ownText: string): ScopeCandidate[] {
+          const scopes: ScopeCandidate[] = [];
+          let node: Element | null =
+            el.parentElement ?? ((el.getRootNode() as ShadowRoot).host || null);
+
+          while (node && node !== document.body && scopes.length < maxScopes) {
+            const role = node.getAttribute('role') || getImplicitScopeRole(node);
+            const scopeTestId = node.getAttribute(testIdAttribute);
+
+            if (scopeTestId || (role && scopeRoleSet.has(role))) {
+              const scope: ScopeCandidate = {};
+              if (scopeTestId) scope.testId = scopeTestId;
+              if (role && scopeRoleSet.has(role)) scope.role = role;
+              const name = node.getAttribute('aria-label');
+              if (name) scope.name = name;
+
+              // 対象要素自身のテキスト以外で、最初に現れる短い行を識別テキストとする
+              const hasText = getTextLines(node).find(
+                (line) => line && line !== ownText && line.length < 50
+              );
+              if (hasText) scope.hasText = hasText;
+
+              scopes.push(scope);
+            }
+
+            node = node.parentElement ?? ((node.getRootNode() as ShadowRoot).host || null);
+          }
+          return scopes;
         }
-        const cleanText = text.replace(/\s+/g, ' ').trim();
-
-        const ariaLabel = el.getAttribute('aria-label');
-        const placeholder = el.getAttribute('placeholder');
-        const testId = el.getAttribute('data-testid');
-        const title = el.getAttribute('title');
-        const alt = el.getAttribute('alt');
-
-        const description =
-          ariaLabel || placeholder || title || alt || cleanText || 'Unlabeled Element';
-
-        const selectors: SelectorCandidates = {};
-        if (testId) selectors.testId = testId;
-        if (placeholder) selectors.placeholder = placeholder;
-        if (cleanText && cleanText.length < 50) selectors.text = cleanText;
-        if (ariaLabel) selectors.label = ariaLabel;
-        if (title) selectors.title = title;
-        if (alt) selectors.altText = alt;
-
-        let finalRole = roleAttr;
-        if (!finalRole) {
-          if (tagName === 'button') finalRole = 'button';
-          else if (tagName === 'a' && el.hasAttribute('href')) finalRole = 'link';
-          else if (tagName === 'input' && inputType === 'checkbox') finalRole = 'checkbox';
-          else if (tagName === 'input' && inputType === 'radio') finalRole = 'radio';
-          else if (tagName === 'input') finalRole = 'textbox';
-          else if (tagName === 'select') finalRole = 'combobox';
+
+        function traverse(root: Document | ShadowRoot | Element) {
+          const children = root.querySelectorAll('*');
+          children.forEach((el) => {
+            checkElement(el);
+            if (el.shadowRoot) {
+              traverse(el.shadowRoot);
+            }
+          });
         }
 
-        if (finalRole && (ariaLabel || cleanText)) {
-          selectors.role = { role: finalRole, name: ariaLabel || cleanText };
+        function checkElement(el: Element) {
+          if (!isVisibleStyle(el)) return;
+
+          const tagName = el.tagName.toLowerCase();
+          const style = window.getComputedStyle(el);
+          const roleAttr = el.getAttribute('role');
+
+          const isScrollable =
+            el.scrollHeight > el.clientHeight &&
+            (style.overflowY === 'scroll' || style.overflowY === 'auto');
+
+          const isInteractive =
+            ['button', 'a', 'input', 'select', 'textarea', 'details', 'summary'].includes(
+              tagName
+            ) ||
+            validRoleSet.has(roleAttr || '') ||
+            el.getAttribute('contenteditable') === 'true' ||
+            style.cursor === 'pointer' ||
+            isScrollable;
+
+          if (!isInteractive) return;
+
+          let text = (el as HTMLElement).innerText || (el as HTMLInputElement).value || '';
+          const inputType = el.getAttribute('type');
+          const autocomplete = el.getAttribute('autocomplete');
+
+          if (
+            tagName === 'input' &&
+            ((inputType && ['password', 'email', 'tel'].includes(inputType)) ||
+              (autocomplete &&
+                (autocomplete.includes('password') ||
+                  autocomplete === 'email' ||
+                  autocomplete.startsWith('cc-'))))
+          ) {
+            text = '[REDACTED]';
+          }
+          const cleanText = text.replace(/\s+/g, ' ').trim();
+
+          const ariaLabel = el.getAttribute('aria-label');
+          const placeholder = el.getAttribute('placeholder');
+          const testId = el.getAttribute(testIdAttribute);
+          const title = el.getAttribute('title');
+          const alt = el.getAttribute('alt');
+
+          // getByLabel 用: <label> 要素 > aria-labelledby > aria-label の順で採用
+          const labelElements = (el as HTMLInputElement).labels;
+          let labelText =
+            labelElements && labelElements.length > 0
+              ? Array.from(labelElements)
+                  .map((l) => (l.textContent || '').replace(/\s+/g, ' ').trim())
+                  .join(' ')
+              : '';
+          const labelledBy = el.getAttribute('aria-labelledby');
+          if (!labelText && labelledBy) {
+            labelText = labelledBy
+              .split(/\s+/)
+              .map((id) => document.getElementById(id)?.textContent || '')
+              .join(' ')
+              .replace(/\s+/g, ' ')
+              .trim();
+          }
+
+          const description =
+            ariaLabel ||
+            labelText ||
+            placeholder ||
+            title ||
+            alt ||
+            cleanText ||
+            'Unlabeled Element';
+
+          const selectors: SelectorCandidates = {};
+          if (testId) selectors.testId = testId;
+          if (placeholder) selectors.placeholder = placeholder;
+          if (cleanText && cleanText.length < 50) selectors.text = cleanText;
+          if (labelText || ariaLabel) selectors.label = labelText || ariaLabel!;
+          if (title) selectors.title = title;
+          if (alt) selectors.altText = alt;
+
+          let finalRole = roleAttr;
+          if (!finalRole) {
+            if (tagName === 'button') finalRole = 'button';
+            else if (tagName === 'a' && el.hasAttribute('href')) finalRole = 'link';
+            else if (tagName === 'input' && inputType === 'checkbox') finalRole = 'checkbox';
+            else if (tagName === 'input' && inputType === 'radio') finalRole = 'radio';
+            else if (tagName === 'input') finalRole = 'textbox';
+            else if (tagName === 'select') finalRole = 'combobox';
+          }
+
+          if (finalRole && (ariaLabel || cleanText)) {
+            selectors.role = { role: finalRole, name: ariaLabel || cleanText };
+          }
+
+          const attributes: Record<string, string> = {};
+          if (el.id) attributes['id'] = el.id;
+          if (el.className) attributes['class'] = el.className;
+          if (inputType) attributes['type'] = inputType;
+          if (finalRole) attributes['role'] = finalRole;
+
+          // name属性の収集を追加
+          const nameAttr = el.getAttribute('name');
+          if (nameAttr) attributes['name'] = nameAttr;
+
+          foundItems.push({
+            element: el,
+            metadata: {
+              xpath: getXPath(el),
+              tagName,
+              inputType: inputType || null,
+              description,
+              isScrollable,
+              isInViewport: isInViewport(el),
+              boundingBox: (({ x, y, width, height }) => ({ x, y, width, height }))(
+                el.getBoundingClientRect()
+              ),
+              selectors,
+              scopes: getScopes(el, cleanText),
+              attributes,
+              textContent: cleanText.slice(0, 50),
+            },
+          });
         }
 
-        const attributes: Record<string, string> = {};
-        if (el.id) attributes['id'] = el.id;
-        if (el.className) attributes['class'] = el.className;
-        if (inputType) attributes['type'] = inputType;
-        if (finalRole) attributes['role'] = finalRole;
-
-        // name属性の収集を追加
-        const nameAttr = el.getAttribute('name');
-        if (nameAttr) attributes['name'] = nameAttr;
-
-        foundItems.push({
-          element: el,
-          metadata: {
-            xpath: getXPath(el),
-            tagName,
-            inputType: inputType || null,
-            description,
-            isScrollable,
-            isInViewport: isInViewport(el),
-            selectors,
-            attributes,
-            textContent: cleanText.slice(0, 50),
-          },
-        });
+        traverse(document);
+        return foundItems;
+      },
+      {
+        validRoles: VALID_ARIA_ROLES,
+        scopeRoles: SCOPE_ROLES,
+        maxScopes: MAX_SCOPES,
+        testIdAttribute: this.testIdAttribute,
       }
-
-      traverse(document);
-      return foundItems;
-    }, VALID_ARIA_ROLES);
+    );
 
     const properties = await resultHandle.getProperties();
     const items: Array<{ handle: ElementHandle; metadata: ElementMetadataInfo }> = [];
@@ -379,7 +859,9 @@ ${yamlLines.length > 0 ? yamlLines.join('\n') : '(No interactive elements found
     });
   }
 
-  private generateSemanticHash(meta: ElementMetadataInfo): string {
+  private generateSemanticHash(
+    meta: Pick<ElementMetadataInfo, 'tagName' | 'selectors' | 'attributes' | 'textContent'>
+  ): string {
     const parts = [
       meta.tagName,
       meta.selectors.testId || '',
@@ -401,3 +883,60 @@ ${yamlLines.length > 0 ? yamlLines.join('\n') : '(No interactive elements found
     return (hash >>> 0).toString(16).substring(0, 8);
   }
 }
+
+/**
+ * ノード配下で最初に現れる短いテキスト (除外テキスト以外) を返す
+ */
+function findFirstText(node: AriaNode, exclude?: string): string | undefined {
+  for (const child of node.children) {
+    for (const candidate of [child.name, child.text]) {
+      if (candidate && candidate !== exclude && candidate.length < 50) return candidate;
+    }
+    const nested = findFirstText(child, exclude);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/**
+ * 2回の観測の差分を求める (変化が大きすぎる場合は null)
+ * ID を持つ要素は ID ごとに、ID を持たない行 ("Saved!" やバリデーションエラーなど) は内容で比較する
+ */
+export function diffSnapshots(
+  previous: ObservedSnapshot,
+  current: ObservedSnapshot
+): ObservationDiff | null {
+  const added: string[] = [];
+  const changed: string[] = [];
+  const unchangedIds: string[] = [];
+
+  for (const [id, line] of current.entries) {
+    const before = previous.entries.get(id);
+    if (before === undefined) added.push(`+ ${line}`);
+    else if (before !== line) changed.push(`~ ${line}`);
+    else unchangedIds.push(id);
+  }
+  const removed = [...previous.entries.entries()]
+    .filter(([id]) => !current.entries.has(id))
+    .map(([, line]) => `- ${line}`);
+
+  // 同じテキストが複数ある場合も増減がわかるよう、出現回数で比較する
+  const remaining = new Map<string, number>();
+  for (const text of previous.texts) remaining.set(text, (remaining.get(text) ?? 0) + 1);
+  for (const text of current.texts) {
+    const count = remaining.get(text) ?? 0;
+    if (count > 0) remaining.set(text, count - 1);
+    else added.push(`+ ${text}`);
+  }
+  for (const [text, count] of remaining) {
+    for (let i = 0; i < count; i++) removed.push(`- ${text}`);
+  }
+
+  const changes = [...added, ...changed, ...removed];
+  const size = Math.max(
+    previous.entries.size + previous.texts.length,
+    current.entries.size + current.texts.length
+  );
+  if (changes.length > size * MAX_DIFF_RATIO) return null;
+  return { changes, unchangedIds };
+}
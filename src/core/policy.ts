@@ -0,0 +1,153 @@
+/**
+ * src/core/policy.ts
+ * 実行前にアクションを検査する安全ポリシー (URL の許可リスト・禁止アクション・アップロード元・要素ルール)
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  ActionPlan,
+  ElementContainer,
+  PolicyRule,
+  SafetyPolicyOptions,
+  SafetyPolicySchema,
+} from '../types';
+import { kindOf } from './ranker';
+
+/**
+ * ポリシーファイル (JSON) を読み込み、検証する
+ */
+export async function loadSafetyPolicy(filePath: string): Promise<SafetyPolicyOptions> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Failed to read policy file: ${filePath}`, { cause: error });
+  }
+
+  try {
+    return SafetyPolicySchema.parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`Invalid policy file: ${filePath}`, { cause: error });
+  }
+}
+
+export class SafetyPolicy {
+  private options: SafetyPolicyOptions;
+  private confirm?: (message: string) => Promise<boolean>;
+  private urlPatterns: RegExp[] | null;
+
+  constructor(options: SafetyPolicyOptions = {}, confirm?: (message: string) => Promise<boolean>) {
+    this.options = options;
+    this.confirm = confirm;
+    this.urlPatterns = options.allowedUrls ? options.allowedUrls.map(globToRegExp) : null;
+  }
+
+  /**
+   * アクションを検査し、ブロックする場合はその理由を返す
+   * 理由は `Blocked <action> on "<対象>": <理由>` の形式
+   */
+  async check(
+    plan: ActionPlan,
+    elementMap: Map<string, ElementContainer>,
+    currentUrl: string
+  ): Promise<string | null> {
+    const actionTypes = effectiveActionTypes(plan);
+    const disallowed = actionTypes.find((type) => this.options.disallowedActions?.includes(type));
+    if (disallowed) {
+      return `Blocked ${plan.actionType}: the action type "${disallowed}" is not allowed.`;
+    }
+
+    if (plan.actionType === 'navigate' && plan.value) {
+      let url = plan.value;
+      try {
+        url = new URL(plan.value, currentUrl).href;
+      } catch {
+        // URL として解釈できない場合はそのまま照合する
+      }
+      const violation = this.checkPage(url);
+      if (violation) return `Blocked navigate to "${url}": ${violation}`;
+    }
+
+    if (plan.actionType === 'upload' && plan.value && this.options.allowedUploadPaths) {
+      const allowed = this.options.allowedUploadPaths.map((p) => path.resolve(p));
+      for (const file of plan.value.split(',').map((f) => path.resolve(f.trim()))) {
+        const isAllowed = allowed.some(
+          (dir) => file === dir || file.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep)
+        );
+        if (!isAllowed) {
+          return `Blocked upload of "${file}": the file is outside the allowed paths (${this.options.allowedUploadPaths.join(', ')}).`;
+        }
+      }
+    }
+
+    const targets = [plan.targetId, plan.targetId2]
+      .map((id) => (id ? elementMap.get(id) : undefined))
+      .filter((element): element is ElementContainer => element !== undefined);
+
+    for (const rule of this.options.rules ?? []) {
+      if (rule.actionTypes && !actionTypes.some((type) => rule.actionTypes!.includes(type))) {
+        continue;
+      }
+      const target = targets.find((element) => matchesRule(rule, element));
+      if (!target) continue;
+
+      const reason = (rule.reason ?? 'it matches a protected element rule').replace(/\.$/, '');
+      const subject = `${plan.actionType} on "${target.description}"`;
+      if (rule.effect === 'block') {
+        return `Blocked ${subject}: ${reason}.`;
+      }
+      if (!this.confirm) {
+        return `Blocked ${subject}: ${reason}. Confirmation is required, but not available in this run.`;
+      }
+      if (!(await this.confirm(`${subject}: ${reason}. Allow this action?`))) {
+        return `Blocked ${subject}: ${reason}. The user rejected the action.`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 遷移先・遷移後のページが許可された URL か検査し、違反している場合はその理由を返す
+   */
+  checkPage(url: string): string | null {
+    if (!this.urlPatterns || url.startsWith('about:')) return null;
+    if (this.urlPatterns.some((pattern) => pattern.test(url))) return null;
+    return `the URL "${url}" is outside the allowed URLs (${this.options.allowedUrls!.join(', ')}).`;
+  }
+}
+
+/**
+ * ポリシーの照合に使うアクション種別
+ * wait_for_response / assert_response は targetId の要素をクリックするため、click としても扱う
+ */
+function effectiveActionTypes(plan: ActionPlan): ActionPlan['actionType'][] {
+  const isClickTrigger =
+    (plan.actionType === 'wait_for_response' || plan.actionType === 'assert_response') &&
+    Boolean(plan.targetId);
+  return isClickTrigger ? [plan.actionType, 'click'] : [plan.actionType];
+}
+
+function matchesRule(rule: PolicyRule, element: ElementContainer): boolean {
+  if (rule.keywords) {
+    const description = element.description.toLowerCase();
+    if (!rule.keywords.some((keyword) => description.includes(keyword.toLowerCase()))) {
+      return false;
+    }
+  }
+  if (rule.roles) {
+    if (!rule.roles.includes(kindOf(element))) return false;
+  }
+  return true;
+}
+
+/**
+ * `*` をワイルドカードとする URL パターンを正規表現に変換する
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,238 @@
+/**
+ * src/core/ranker.ts
+ * ゴールとの関連度で要素を順位付けし、stateText をトークン予算内に収める
+ */
+import { ElementContainer } from '../types';
+
+type Box = NonNullable<ElementContainer['boundingBox']>;
+
+/**
+ * 順位付けに使う実行コンテキスト
+ */
+export interface RankingContext {
+  goal: string;
+  hints: string[]; // 直近の履歴・思考など
+  lastTargetId?: string; // 直前に操作した要素 (近接度の基準)
+  page?: number; // more_elements で要求された要素ページ (0始まり)
+}
+
+/**
+ * stateText の1行
+ * Virtual ID を持つ行と、ID を持たない末端の行 (ステータスメッセージ・エラー表示などのテキスト) が順位付けの対象
+ */
+export interface StateLine {
+  text: string;
+  id?: string;
+  parent?: number; // 階層表示の場合の親行のインデックス
+}
+
+export interface BudgetedState {
+  lines: string[];
+  summary: string | null; // 予算超過時の「表示範囲と折りたたんだ件数」
+}
+
+// ID を持たないテキスト行の基礎点 (操作結果のフィードバックとなるロールを優先する)
+const TEXT_ROLE_WEIGHTS: Record<string, number> = {
+  alert: 4,
+  status: 4,
+  alertdialog: 4,
+};
+
+// ロールごとの基礎点 (入力・送信系の操作対象を優先する)
+const ROLE_WEIGHTS: Record<string, number> = {
+  textbox: 3,
+  searchbox: 3,
+  combobox: 3,
+  button: 3,
+  checkbox: 2,
+  radio: 2,
+  switch: 2,
+  link: 2,
+  tab: 2,
+  menuitem: 2,
+  option: 2,
+  heading: 1,
+};
+
+const TAG_ROLES: Record<string, string> = {
+  input: 'textbox',
+  textarea: 'textbox',
+  select: 'combobox',
+  button: 'button',
+  a: 'link',
+};
+
+/**
+ * おおよそのトークン数 (英語で約4文字/トークン、日本語は多めに見積もる)
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const ch of text) tokens += ch.charCodeAt(0) > 0x7f ? 1 : 0.25;
+  return Math.ceil(tokens);
+}
+
+/**
+ * トークン予算に収まるよう、関連度の高い要素から選んで表示する
+ * 表示順はページ上の順序 (階層) を維持し、選ばれなかった要素は種類ごとの件数に折りたたむ
+ */
+export function fitStateToBudget(
+  lines: StateLine[],
+  elements: Map<string, ElementContainer>,
+  context: RankingContext,
+  budgetTokens: number,
+  anchor?: Box // 直前に操作した要素の位置
+): BudgetedState {
+  const requestedPage = context.page ?? 0;
+  const totalTokens = costOf(lines, lines.keys());
+  if (totalTokens <= budgetTokens && requestedPage === 0) {
+    return { lines: lines.map((line) => line.text), summary: null };
+  }
+
+  const ranked = rankLines(lines, elements, context, anchor);
+
+  // 予算ごとにページへ分割する (祖先行のコストも含める)
+  const pages: Array<Set<number>> = [];
+  let current = new Set<number>();
+  let used = 0;
+  for (const index of ranked) {
+    let required = [index, ...ancestorsOf(lines, index)].filter((i) => !current.has(i));
+    let cost = costOf(lines, required);
+    if (used + cost > budgetTokens && current.size > 0) {
+      pages.push(current);
+      current = new Set<number>();
+      used = 0;
+      required = [index, ...ancestorsOf(lines, index)];
+      cost = costOf(lines, required);
+    }
+    for (const i of required) current.add(i);
+    used += cost;
+  }
+  if (current.size > 0) pages.push(current);
+
+  const pageIndex = Math.min(requestedPage, Math.max(pages.length - 1, 0));
+  const shown = pages[pageIndex] ?? new Set<number>();
+
+  const collapsed = new Map<string, number>();
+  let collapsedCount = 0;
+  for (const index of ranked) {
+    if (shown.has(index)) continue;
+    const id = lines[index].id;
+    const kind = id ? kindOf(elements.get(id)) : 'text';
+    collapsed.set(kind, (collapsed.get(kind) ?? 0) + 1);
+    collapsedCount++;
+  }
+
+  const isElement = (index: number) => lines[index].id !== undefined;
+  const elementCount = ranked.filter(isElement).length;
+  const shownElements = ranked.filter((index) => shown.has(index) && isElement(index)).length;
+  const textCount = ranked.length - elementCount;
+  const shownTexts = ranked.filter((index) => shown.has(index) && !isElement(index)).length;
+  const breakdown = [...collapsed.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(', ');
+  const hasMore = pageIndex < pages.length - 1;
+
+  const summary = [
+    `Showing ${shownElements} of ${elementCount} elements${textCount > 0 ? ` and ${shownTexts} of ${textCount} text lines` : ''} (page ${pageIndex + 1}/${pages.length}, ranked by relevance to the goal).`,
+    collapsedCount > 0 ? `Collapsed: ${breakdown}.` : '',
+    hasMore
+      ? "Use actionType 'more_elements' to see the next page."
+      : pages.length > 1
+        ? 'This is the last page.'
+        : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return {
+    lines: lines.filter((_, i) => shown.has(i)).map((line) => line.text),
+    summary,
+  };
+}
+
+/**
+ * 順位付けの対象の行のインデックスを関連度の高い順に返す
+ */
+function rankLines(
+  lines: StateLine[],
+  elements: Map<string, ElementContainer>,
+  context: RankingContext,
+  anchor?: Box
+): number[] {
+  const goalText = context.goal.toLowerCase();
+  const hintText = context.hints.join(' ').toLowerCase();
+  const goalWords = new Set(tokenize(goalText));
+  const hintWords = new Set(tokenize(hintText));
+
+  const parents = new Set(lines.map((line) => line.parent));
+  const scored = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line, index }) => line.id !== undefined || !parents.has(index))
+    .map(({ line, index }) => {
+      const element = line.id ? elements.get(line.id) : undefined;
+      const description = (element?.description ?? line.text).toLowerCase();
+      // テキスト行は alert などの内側にある場合も、そのロールの基礎点を使う
+      let score = line.id
+        ? (ROLE_WEIGHTS[kindOf(element)] ?? 1)
+        : Math.max(
+            1,
+            ...[index, ...ancestorsOf(lines, index)].map(
+              (i) => TEXT_ROLE_WEIGHTS[roleOf(lines[i])] ?? 1
+            )
+          );
+
+      // 語彙の一致 (ゴールを重視)
+      for (const word of tokenize(description)) {
+        if (goalWords.has(word)) score += 3;
+        else if (hintWords.has(word)) score += 1;
+      }
+      // 空白で区切られない言語向けに、説明文そのものの包含も見る
+      if (description.length >= 2 && goalText.includes(description)) score += 5;
+
+      // 直前に操作した要素への近さ
+      const box = element?.boundingBox;
+      if (anchor && box) {
+        const distance = Math.hypot(box.x - anchor.x, box.y - anchor.y);
+        score += 2 / (1 + distance / 200);
+      }
+      if (element && !element.isInViewport) score -= 1;
+
+      return { index, score };
+    });
+
+  // 同点の場合はページ上の順序を維持する
+  return scored.sort((a, b) => b.score - a.score || a.index - b.index).map((item) => item.index);
+}
+
+// 改行分として1トークンを加算する
+function costOf(lines: StateLine[], indexes: Iterable<number>): number {
+  let cost = 0;
+  for (const i of indexes) cost += estimateTokens(lines[i].text) + 1;
+  return cost;
+}
+
+/**
+ * 表示行のロール (`- role "name"` の形式)
+ */
+function roleOf(line: StateLine): string {
+  return line.text.match(/^\s*- ([a-z]+)/)?.[1] ?? '';
+}
+
+function ancestorsOf(lines: StateLine[], index: number): number[] {
+  const ancestors: number[] = [];
+  for (let p = lines[index].parent; p !== undefined; p = lines[p].parent) ancestors.push(p);
+  return ancestors;
+}
+
+/**
+ * 要素の種類 (ロール、無ければタグから推定)
+ */
+export function kindOf(element: ElementContainer | undefined): string {
+  if (!element) return 'element';
+  return element.selectors.role?.role ?? TAG_ROLES[element.tagName] ?? element.tagName;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter((word) => word.length >= 3);
+}
@@ -0,0 +1,78 @@
+/**
+ * src/core/secrets.ts
+ * `{{secret:NAME}}` プレースホルダの解決とマスキング
+ * 実際の値は fill/type の実行直前にのみ展開し、LLM・ログ・生成コードにはプレースホルダのまま流す
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as dotenv from 'dotenv';
+import { SecretOptions } from '../types';
+import { SECRET_PLACEHOLDER_PATTERN } from '../constants';
+
+export class SecretStore {
+  private options: SecretOptions;
+  private fileValues: Record<string, string> = {};
+  // 展開済みの値 -> 名前 (マスキング用)
+  private revealed = new Map<string, string>();
+
+  constructor(options: SecretOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * シークレットファイルを読み込む (.json はオブジェクト、それ以外は .env 形式)
+   */
+  async load(): Promise<void> {
+    if (!this.options.file) return;
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.options.file, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read secrets file: ${this.options.file}`, { cause: error });
+    }
+
+    if (path.extname(this.options.file) === '.json') {
+      const parsed = JSON.parse(content) as Record<string, unknown>;
+      this.fileValues = Object.fromEntries(
+        Object.entries(parsed).map(([key, value]) => [key, String(value)])
+      );
+    } else {
+      this.fileValues = dotenv.parse(content);
+    }
+  }
+
+  /**
+   * 文字列中のプレースホルダを実際の値に置き換える
+   */
+  resolve(text: string): string {
+    return text.replace(new RegExp(SECRET_PLACEHOLDER_PATTERN.source, 'g'), (_, name: string) => {
+      const value = this.options.values?.[name] ?? process.env[name] ?? this.fileValues[name];
+      if (value === undefined) {
+        throw new Error(
+          `Secret "${name}" is not defined. Set the ${name} environment variable or add it to the secrets file.`
+        );
+      }
+      if (value) {
+        // URL に展開された場合に備え、エンコード後の表記もマスキングの対象にする
+        for (const form of [encodeURIComponent(value), encodeURI(value), value]) {
+          this.revealed.set(form, name);
+        }
+      }
+      return value;
+    });
+  }
+
+  /**
+   * 展開済みの値が含まれていればプレースホルダに戻す (観測結果・エラーメッセージ用)
+   */
+  mask(text: string): string {
+    let masked = text;
+    // 長い値から置換し、部分一致による取りこぼしを防ぐ
+    const entries = [...this.revealed.entries()].sort((a, b) => b[0].length - a[0].length);
+    for (const [value, name] of entries) {
+      masked = masked.split(value).join(`{{secret:${name}}}`);
+    }
+    return masked;
+  }
+}
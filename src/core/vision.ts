@@ -0,0 +1,84 @@
+/**
+ * src/core/vision.ts
+ * Virtual ID ごとに番号付きの枠を描画したスクリーンショット (Set-of-Marks) を生成する
+ */
+import { Locator, Page } from 'playwright';
+import { ElementContainer } from '../types';
+
+export interface SetOfMarks {
+  image: Buffer;
+  legend: string; // LLM 向けの「番号 -> Virtual ID」一覧
+  markCount: number;
+}
+
+interface Mark {
+  label: number;
+  id: string;
+  box: { x: number; y: number; width: number; height: number };
+}
+
+const OVERLAY_ID = '__flashloop_set_of_marks__';
+
+// 隣接する枠を見分けやすくするための配色
+const MARK_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#f032e6'];
+
+/**
+ * ビューポート内の要素に番号付きの枠を重ねてスクリーンショットを撮る
+ * オーバーレイは撮影後すぐに取り除く
+ * @param mask 塗りつぶす要素 (シークレットを入力した入力欄など。画像は LLM に送られるため)
+ */
+export async function captureSetOfMarks(
+  page: Page,
+  elementMap: Map<string, ElementContainer>,
+  mask: Locator[] = []
+): Promise<SetOfMarks> {
+  const marks: Mark[] = [];
+  for (const container of elementMap.values()) {
+    if (!container.isInViewport) continue;
+    // boundingBox はメインフレームのビューポート基準のため、iframe 内の要素も同じ座標系で描画できる
+    const box = await container.handle.boundingBox().catch(() => null);
+    if (!box || box.width === 0 || box.height === 0) continue;
+    marks.push({ label: marks.length + 1, id: container.id, box });
+  }
+
+  await page.evaluate(
+    ({ marks, overlayId, colors }) => {
+      document.getElementById(overlayId)?.remove();
+      const overlay = document.createElement('div');
+      overlay.id = overlayId;
+      overlay.style.cssText =
+        'position:fixed;inset:0;pointer-events:none;z-index:2147483647;overflow:hidden;';
+
+      for (const mark of marks) {
+        const color = colors[(mark.label - 1) % colors.length];
+        const frame = document.createElement('div');
+        frame.style.cssText = `position:absolute;left:${mark.box.x}px;top:${mark.box.y}px;width:${mark.box.width}px;height:${mark.box.height}px;border:2px solid ${color};box-sizing:border-box;`;
+
+        const label = document.createElement('span');
+        label.textContent = String(mark.label);
+        label.style.cssText = `position:absolute;left:-2px;top:-2px;transform:translateY(-100%);background:${color};color:#fff;font:bold 11px/1.2 sans-serif;padding:0 3px;`;
+        if (mark.box.y < 14) label.style.transform = 'none';
+
+        frame.appendChild(label);
+        overlay.appendChild(frame);
+      }
+      document.documentElement.appendChild(overlay);
+    },
+    { marks, overlayId: OVERLAY_ID, colors: MARK_COLORS }
+  );
+
+  let image: Buffer;
+  try {
+    image = await page.screenshot({ mask });
+  } finally {
+    await page
+      .evaluate((overlayId) => document.getElementById(overlayId)?.remove(), OVERLAY_ID)
+      .catch(() => {});
+  }
+
+  return {
+    image,
+    legend: marks.map((mark) => `${mark.label}: ${mark.id}`).join('\n'),
+    markCount: marks.length,
+  };
+}
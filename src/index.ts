@@ -4,7 +4,34 @@
  */
 import { Command, InvalidArgumentError } from 'commander';
 import { FlashLoop } from './core/loop';
+import {
+  getMissingApiKeyMessage,
+  parseProviderName,
+  resolveLLMConfig,
+  ResolvedLLMConfig,
+} from './core/llm-provider';
+import { SpecHealer, formatRewriteDiff } from './core/healer';
+import {
+  BrowserNameEnum,
+  CodegenTarget,
+  CodegenTargetEnum,
+  ColorSchemeEnum,
+  LLMProviderName,
+  ObservationModeEnum,
+  SelectorOptions,
+  SelectorStrategy,
+  SelectorStrategyEnum,
+} from './types';
 import { SpinnerLogger } from './tools/logger';
+import { InteractiveReviewer, askConfirmation } from './tools/interactive';
+import { loadSafetyPolicy } from './core/policy';
+import { findDevice } from './core/emulation';
+import { writeTraceReport } from './tools/trace-viewer';
+import { BatchRunner } from './core/batch';
+import { formatBatchSummary, writeBatchReports } from './tools/batch-report';
+import { SuiteGenerator, SuiteTestGenerator } from './tools/suite-generator';
+import { DEFAULT_BATCH_OUT_DIR } from './constants';
+import * as path from 'node:path';
 import * as dotenv from 'dotenv';
 import chalk from 'chalk';
 
@@ -13,10 +40,99 @@ dotenv.config();
 
 const program = new Command();
 
+/**
+ * LLM接続用の共通オプションをコマンドに追加する
+ */
+function addLLMOptions(command: Command): Command {
+  return command
+    .option(
+      '--provider <name>',
+      'LLM provider (cerebras, openai, openai-compatible, ollama)',
+      (val) => {
+        try {
+          return parseProviderName(val);
+        } catch (error) {
+          throw new InvalidArgumentError((error as Error).message);
+        }
+      }
+    )
+    .option('--model <name>', 'LLM model name')
+    .option('--base-url <url>', 'Base URL of the LLM API (e.g. http://localhost:8000/v1)')
+    .option('--api-key <key>', 'API key for the LLM provider');
+}
+
+/**
+ * ロケータ生成に関する共通オプションをコマンドに追加する
+ */
+function addSelectorOptions(command: Command): Command {
+  return command
+    .option('--test-id-attribute <attr>', 'Attribute used by getByTestId (default: data-testid)')
+    .option(
+      '--selector-priority <list>',
+      `Comma-separated locator strategy priority (${SelectorStrategyEnum.options.join(', ')})`,
+      (val): SelectorStrategy[] =>
+        val
+          .split(',')
+          .map((s) => s.trim())
+          .filter(Boolean)
+          .map((s) => {
+            const parsed = SelectorStrategyEnum.safeParse(s);
+            if (!parsed.success) {
+              throw new InvalidArgumentError(
+                `Unknown strategy: "${s}". Available: ${SelectorStrategyEnum.options.join(', ')}`
+              );
+            }
+            return parsed.data;
+          })
+    );
+}
+
+function toSelectorOptions(options: {
+  testIdAttribute?: string;
+  selectorPriority?: SelectorStrategy[];
+}): SelectorOptions {
+  return { testIdAttribute: options.testIdAttribute, priority: options.selectorPriority };
+}
+
+function parseCodegenTarget(val: string): CodegenTarget {
+  const parsed = CodegenTargetEnum.safeParse(val);
+  if (!parsed.success) {
+    throw new InvalidArgumentError(
+      `Unknown target: "${val}". Available: ${CodegenTargetEnum.options.join(', ')}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * CLIオプションからLLM設定を解決し、必要なAPIキーが無ければ終了する
+ */
+function resolveCliLLMConfig(
+  options: Record<string, string | undefined>,
+  requireApiKey = true
+): ResolvedLLMConfig {
+  const llmConfig = resolveLLMConfig({
+    provider: options.provider as LLMProviderName | undefined,
+    model: options.model,
+    baseURL: options.baseUrl,
+    apiKey: options.apiKey,
+  });
+
+  const missingKeyMessage = requireApiKey ? getMissingApiKeyMessage(llmConfig) : null;
+  if (missingKeyMessage) {
+    console.error(chalk.red(`Error: ${missingKeyMessage}`));
+    process.exit(1);
+  }
+  return llmConfig;
+}
+
 program
   .name('flash-loop')
   .description('AI-powered autonomous browser agent (Flash-Loop)')
-  .version('2.1.0')
+  .version('2.1.0');
+
+addSelectorOptions(addLLMOptions(program.command('run', { isDefault: true })))
+  .description('Run the agent for a goal and generate a Playwright spec')
   .argument('<goal>', 'The goal for the agent to achieve')
   .option('-u, --url <url>', 'Starting URL')
   .option('--headless', 'Run in headless mode', false)
@@ -27,37 +143,386 @@ program
     }
     return parsed;
   })
-  .action(async (goal, options) => {
-    if (!process.env.CEREBRAS_API_KEY) {
-      console.error(
-        chalk.red(
-          'Error: CEREBRAS_API_KEY is not set. Please create a .env file based on .env.example'
-        )
+  .option('--browser <name>', 'Browser engine (chromium, firefox, webkit)', (val) => {
+    const parsed = BrowserNameEnum.safeParse(val);
+    if (!parsed.success) {
+      throw new InvalidArgumentError(
+        `Unknown browser: "${val}". Available: ${BrowserNameEnum.options.join(', ')}`
       );
+    }
+    return parsed.data;
+  })
+  .option('--device <name>', 'Emulate a Playwright device (e.g. "iPhone 13")', (val) => {
+    try {
+      findDevice(val);
+    } catch (error) {
+      throw new InvalidArgumentError((error as Error).message);
+    }
+    return val;
+  })
+  .option('--viewport <size>', 'Viewport size as <width>x<height> (e.g. 1280x720)', (val) => {
+    const match = val.match(/^(\d+)x(\d+)$/);
+    if (!match || Number(match[1]) <= 0 || Number(match[2]) <= 0) {
+      throw new InvalidArgumentError('Viewport must be <width>x<height>, e.g. 1280x720.');
+    }
+    return { width: Number(match[1]), height: Number(match[2]) };
+  })
+  .option('--locale <locale>', 'Browser locale (e.g. ja-JP)')
+  .option('--timezone <id>', 'Timezone ID (e.g. Asia/Tokyo)', (val) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: val });
+    } catch {
+      throw new InvalidArgumentError(`Unknown timezone: "${val}".`);
+    }
+    return val;
+  })
+  .option('--geolocation <lat,lng>', 'Geolocation as <latitude>,<longitude>', (val) => {
+    const match = val.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+    const latitude = Number(match?.[1]);
+    const longitude = Number(match?.[2]);
+    if (!match || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new InvalidArgumentError(
+        'Geolocation must be <latitude>,<longitude>, e.g. 35.68,139.76.'
+      );
+    }
+    return { latitude, longitude };
+  })
+  .option('--color-scheme <scheme>', 'Color scheme (light, dark, no-preference)', (val) => {
+    const parsed = ColorSchemeEnum.safeParse(val);
+    if (!parsed.success) {
+      throw new InvalidArgumentError(
+        `Unknown color scheme: "${val}". Available: ${ColorSchemeEnum.options.join(', ')}`
+      );
+    }
+    return parsed.data;
+  })
+  .option(
+    '-t, --target <target>',
+    'Code generation target (typescript, pom, python, json)',
+    parseCodegenTarget,
+    'typescript'
+  )
+  .option(
+    '--observe <mode>',
+    'Observation mode (dom, aria)',
+    (val) => {
+      const parsed = ObservationModeEnum.safeParse(val);
+      if (!parsed.success) {
+        throw new InvalidArgumentError(
+          `Unknown observation mode: "${val}". Available: ${ObservationModeEnum.options.join(', ')}`
+        );
+      }
+      return parsed.data;
+    },
+    'dom'
+  )
+  .option('--incremental', 'Send only the changes since the previous observation', false)
+  .option('--token-budget <tokens>', 'Token budget for the element list in the state', (val) => {
+    const parsed = parseInt(val, 10);
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new InvalidArgumentError('Token budget must be a positive integer.');
+    }
+    return parsed;
+  })
+  .option('--vision', 'Send a set-of-marks screenshot to a multimodal model each step', false)
+  .option('--record <file>', 'Record every brain decision to a cassette file')
+  .option('--replay <file>', 'Replay brain decisions from a cassette file (no LLM calls)')
+  .option('--strict-replay', 'Stop the replay when the observed state drifts', false)
+  .option('--trace [dir]', 'Record a per-step execution trace (default dir: traces)')
+  .option('--secrets <file>', 'Secrets file (.env or JSON) for {{secret:NAME}} placeholders')
+  .option('--interactive', 'Review, edit or skip each action before it runs', false)
+  .option('--policy <file>', 'Safety policy file (JSON) checked before each action')
+  .option('--storage-state <file>', 'Load cookies and localStorage from a storage state file')
+  .option('--save-storage-state <file>', 'Save cookies and localStorage when the goal is achieved')
+  .option('--har <file>', 'Record network traffic to a HAR file')
+  .option('--har-url <glob>', 'Only record (and mock) requests matching this URL glob')
+  .option('--har-mock', 'Generate a spec that replays the recorded HAR via routeFromHAR', false)
+  .option('--fail-on-page-error', 'Generate a spec that fails on uncaught page errors', false)
+  .option('--trace-screenshots', 'Include a screenshot for each step in the trace', false)
+  .option('--append <file>', 'Add the test to a suite file (created if missing) in a test.describe')
+  .option('--name <title>', 'Test title when appending to a suite (default: the goal)')
+  .action(async (goal, options) => {
+    if (options.record && options.replay) {
+      console.error(chalk.red('Error: --record and --replay cannot be used together.'));
+      process.exit(1);
+    }
+    if ((options.harUrl || options.harMock) && !options.har) {
+      console.error(chalk.red('Error: --har-url and --har-mock require --har <file>.'));
+      process.exit(1);
+    }
+    if (options.append && options.target !== 'typescript') {
+      console.error(chalk.red('Error: --append can only be used with the typescript target.'));
+      process.exit(1);
+    }
+    if (options.name && !options.append) {
+      console.error(chalk.red('Error: --name requires --append <file>.'));
       process.exit(1);
     }
 
+    // replay時はLLMを呼び出さないため、APIキーは不要
+    const llmConfig = resolveCliLLMConfig(options, !options.replay);
+
     // CLI実行用のロガーを作成
     const logger = new SpinnerLogger();
     console.log(chalk.cyan('⚡ Starting Flash-Loop...'));
+    if (options.replay) {
+      console.log(chalk.gray(`   Brain: replaying cassette ${options.replay}`));
+    } else {
+      console.log(chalk.gray(`   LLM: ${llmConfig.provider} / ${llmConfig.model}`));
+    }
+
+    const suite = options.append ? new SuiteGenerator(options.append, { append: true }) : null;
+    let suiteTest: SuiteTestGenerator | undefined;
 
     try {
       const agent = new FlashLoop({
         startUrl: options.url,
         headless: options.headless,
         maxSteps: options.maxSteps,
+        browser: options.browser,
+        device: options.device,
+        viewport: options.viewport,
+        locale: options.locale,
+        timezoneId: options.timezone,
+        geolocation: options.geolocation,
+        colorScheme: options.colorScheme,
+        llm: llmConfig,
+        codegenTarget: options.target,
+        generatorFactory: suite
+          ? (generatorOptions) =>
+              (suiteTest = suite.createTest(
+                options.name ?? goal.replace(/\s+/g, ' ').slice(0, 80),
+                generatorOptions
+              ))
+          : undefined,
+        observationMode: options.observe,
+        vision: options.vision,
+        incrementalObservation: options.incremental,
+        stateTokenBudget: options.tokenBudget,
+        secrets: options.secrets ? { file: options.secrets } : undefined,
+        selectors: toSelectorOptions(options),
+        cassette: options.replay
+          ? { mode: 'replay', path: options.replay, strict: options.strictReplay }
+          : options.record
+            ? { mode: 'record', path: options.record }
+            : undefined,
+        storageState:
+          options.storageState || options.saveStorageState
+            ? { load: options.storageState, save: options.saveStorageState }
+            : undefined,
+        har: options.har
+          ? { path: options.har, urlFilter: options.harUrl, mock: options.harMock }
+          : undefined,
+        failOnPageError: options.failOnPageError,
+        trace: options.trace
+          ? {
+              dir: typeof options.trace === 'string' ? options.trace : 'traces',
+              screenshots: options.traceScreenshots,
+            }
+          : undefined,
+        hooks: options.interactive ? new InteractiveReviewer(logger) : undefined,
+        policy: options.policy ? await loadSafetyPolicy(options.policy) : undefined,
+        // 端末から実行している場合のみ confirm ルールを確認する (それ以外はブロック)
+        confirmAction: process.stdin.isTTY
+          ? (message: string) => {
+              logger.stop();
+              return askConfirmation(message);
+            }
+          : undefined,
         logger: logger,
       });
 
-      const output = await agent.start(goal);
+      const result = await agent.start(goal);
+      if (suite) {
+        if (result.status !== 'success') {
+          suiteTest?.markAsFixme(`${result.status}: ${result.reason}`);
+        }
+        await suite.write();
+      }
 
       // 完了メッセージは FlashLoop 内でログ出力されるが、
       // CLI終了として明示的に完了ステータスを表示
-      if (output && output.trim().length > 0) {
+      if (result.status === 'success') {
         console.log(chalk.green('\n✨ Task Finished Successfully!'));
+      } else {
+        console.log(chalk.yellow(`\n⚠️ Goal not achieved (${result.status}): ${result.reason}`));
+      }
+      console.log(chalk.gray(`   Steps: ${result.stepCount} / Final URL: ${result.finalUrl}`));
+      if (result.outputPath) {
+        console.log(chalk.gray(`   Output: ${result.outputPath}`));
+      }
+      const stepsWithErrors = result.steps.filter((s) => s.pageErrors?.length);
+      if (stepsWithErrors.length > 0) {
+        console.log(chalk.yellow('\nPage errors:'));
+        for (const s of stepsWithErrors) {
+          for (const entry of s.pageErrors!) {
+            console.log(
+              chalk.yellow(`   Step ${s.step} [${entry.type}] ${entry.message.split('\n')[0]}`)
+            );
+          }
+        }
+      }
+      if (result.status !== 'success') process.exit(1);
+    } catch (error) {
+      console.error(chalk.red('Unexpected Error:'), error);
+      process.exit(1);
+    }
+  });
+
+addSelectorOptions(addLLMOptions(program.command('heal')))
+  .description('Run an existing generated spec and repair broken locators on the live page')
+  .argument('<spec>', 'Path to the .spec.ts file to heal')
+  .option('-u, --url <url>', 'Starting URL (if the spec does not navigate first)')
+  .option('--headless', 'Run in headless mode', false)
+  .option('--timeout <ms>', 'Timeout for each statement in ms', (val) => {
+    const parsed = parseInt(val, 10);
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new InvalidArgumentError('Timeout must be a positive integer.');
+    }
+    return parsed;
+  })
+  .option('--dry-run', 'Show the diff without rewriting the spec', false)
+  .action(async (spec, options) => {
+    const llmConfig = resolveCliLLMConfig(options);
+    console.log(chalk.cyan(`🩹 Healing ${spec}...`));
+
+    const healer = new SpecHealer({
+      startUrl: options.url,
+      headless: options.headless,
+      timeout: options.timeout,
+      dryRun: options.dryRun,
+      llm: llmConfig,
+      selectors: toSelectorOptions(options),
+      logger: new SpinnerLogger(),
+    });
+
+    try {
+      const result = await healer.heal(spec);
+
+      for (const rewrite of result.rewrites) {
+        const [header, ...body] = formatRewriteDiff(result.specPath, rewrite).split('\n');
+        console.log(chalk.bold(header));
+        for (const line of body) {
+          if (line.startsWith('-') && !line.startsWith('---')) console.log(chalk.red(line));
+          else if (line.startsWith('+') && !line.startsWith('+++')) console.log(chalk.green(line));
+          else console.log(chalk.bold(line));
+        }
+      }
+
+      if (result.rewrites.length === 0) {
+        console.log(chalk.gray('No locator rewrites were needed.'));
+      } else if (options.dryRun) {
+        console.log(chalk.yellow(`\n${result.rewrites.length} rewrite(s) proposed (dry run).`));
+      } else {
+        console.log(chalk.green(`\n${result.rewrites.length} rewrite(s) applied to ${spec}.`));
+      }
+
+      if (!result.passed) {
+        console.error(
+          chalk.red(`\n✖ Line ${result.failure?.line} still fails: ${result.failure?.error}`)
+        );
+        process.exit(1);
       }
     } catch (error) {
       console.error(chalk.red('Unexpected Error:'), error);
+      await healer.cleanup();
+      process.exit(1);
+    }
+  });
+
+addSelectorOptions(addLLMOptions(program.command('batch')))
+  .description('Run many goals from a YAML or JSON file and write a summary report')
+  .argument('<file>', 'Goal file (.yaml, .yml or .json)')
+  .option('--concurrency <number>', 'Number of goals to run at the same time', (val) => {
+    const parsed = parseInt(val, 10);
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new InvalidArgumentError('Concurrency must be a positive integer.');
+    }
+    return parsed;
+  })
+  .option('--headless', 'Run in headless mode', false)
+  .option(
+    '-t, --target <target>',
+    'Code generation target for per-goal specs (typescript, pom, python, json)',
+    parseCodegenTarget,
+    'typescript'
+  )
+  .option('-o, --out-dir <dir>', 'Output directory for specs and reports', DEFAULT_BATCH_OUT_DIR)
+  .option('--suite [file]', 'Write all goals into one combined suite instead of one spec per goal')
+  .option('--append', 'Add the tests to the suite file if it already exists', false)
+  .option('--json <file>', 'Summary JSON file (default: <out-dir>/batch-summary.json)')
+  .option('--junit <file>', 'JUnit XML file (default: <out-dir>/junit.xml)')
+  .option('--secrets <file>', 'Secrets file (.env or JSON) for {{secret:NAME}} placeholders')
+  .option('--policy <file>', 'Safety policy file (JSON) checked before each action')
+  .action(async (file, options) => {
+    if (options.suite && options.target !== 'typescript') {
+      console.error(chalk.red('Error: --suite can only be used with the typescript target.'));
+      process.exit(1);
+    }
+    if (options.append && !options.suite) {
+      console.error(chalk.red('Error: --append requires --suite.'));
+      process.exit(1);
+    }
+    const llmConfig = resolveCliLLMConfig(options);
+    console.log(chalk.cyan(`⚡ Running batch ${file}...`));
+    console.log(chalk.gray(`   LLM: ${llmConfig.provider} / ${llmConfig.model}`));
+
+    // 並列実行ではスピナーの表示が崩れるため、ゴール名付きの行単位で出力する
+    const runner = new BatchRunner({
+      concurrency: options.concurrency,
+      headless: options.headless,
+      outDir: options.outDir,
+      codegenTarget: options.target,
+      suiteFile: options.suite
+        ? typeof options.suite === 'string'
+          ? options.suite
+          : 'flash-loop.suite.spec.ts'
+        : undefined,
+      appendToSuite: options.append,
+      llm: llmConfig,
+      selectors: toSelectorOptions(options),
+      secrets: options.secrets ? { file: options.secrets } : undefined,
+      policy: options.policy ? await loadSafetyPolicy(options.policy) : undefined,
+    });
+
+    try {
+      const summary = await runner.run(file);
+
+      console.log(chalk.bold('\nSummary:'));
+      const lines = formatBatchSummary(summary);
+      for (const [i, line] of lines.entries()) {
+        const result = summary.results[i];
+        if (!result) console.log(chalk.bold(line));
+        else console.log(result.status === 'success' ? chalk.green(line) : chalk.red(line));
+      }
+
+      const reports = {
+        json: options.json ?? path.join(options.outDir, 'batch-summary.json'),
+        junit: options.junit ?? path.join(options.outDir, 'junit.xml'),
+      };
+      await writeBatchReports(summary, reports);
+      if (summary.suitePath) console.log(chalk.gray(`   Suite: ${summary.suitePath}`));
+      console.log(chalk.gray(`   Reports: ${reports.json}, ${reports.junit}`));
+
+      if (summary.passed < summary.total) process.exit(1);
+    } catch (error) {
+      console.error(chalk.red('Batch failed:'), error);
+      await runner.cleanup();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('trace')
+  .description('Render a recorded trace as a self-contained HTML report')
+  .argument('<path>', 'Trace run directory (or its trace.json)')
+  .option('-o, --output <file>', 'Output HTML file (default: <trace dir>/report.html)')
+  .action(async (tracePath, options) => {
+    try {
+      const output = await writeTraceReport(tracePath, options.output);
+      console.log(chalk.green(`📄 Trace report written: ${output}`));
+    } catch (error) {
+      console.error(chalk.red('Failed to render trace:'), error);
       process.exit(1);
     }
   });
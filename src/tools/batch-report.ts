@@ -0,0 +1,105 @@
+/**
+ * src/tools/batch-report.ts
+ * バッチ実行の結果を、CI ダッシュボード向けの JSON / JUnit XML とコンソール用の一覧に変換する
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { BatchSummary } from '../core/batch';
+
+/**
+ * JSON と JUnit XML のレポートを書き出す
+ */
+export async function writeBatchReports(
+  summary: BatchSummary,
+  outputs: { json: string; junit: string }
+): Promise<void> {
+  for (const file of [outputs.json, outputs.junit]) {
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  }
+  await fs.writeFile(outputs.json, JSON.stringify(summary, null, 2), 'utf-8');
+  await fs.writeFile(outputs.junit, renderJUnitReport(summary), 'utf-8');
+}
+
+/**
+ * JUnit XML に変換する
+ * ゴール未達 (max_steps / stopped) は failure、実行時の例外は error として出力する
+ */
+export function renderJUnitReport(summary: BatchSummary): string {
+  const suiteName = path.basename(summary.file);
+  const testcases = summary.results.map((result) => {
+    const attributes = `name="${escapeXml(result.name)}" classname="${escapeXml(suiteName)}" time="${seconds(result.durationMs)}"`;
+    const details = [
+      `Goal: ${result.goal}`,
+      `Status: ${result.status}`,
+      `Steps: ${result.stepCount}`,
+      result.finalUrl ? `Final URL: ${result.finalUrl}` : '',
+      result.outputPath ? `Output: ${result.outputPath}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    const body: string[] = [];
+    if (result.status === 'error') {
+      body.push(
+        `      <error message="${escapeXml(result.reason)}" type="error">${escapeXml(result.reason)}</error>`
+      );
+    } else if (result.status !== 'success') {
+      body.push(
+        `      <failure message="${escapeXml(result.reason)}" type="${result.status}">${escapeXml(result.reason)}</failure>`
+      );
+    }
+    body.push(`      <system-out>${escapeXml(details)}</system-out>`);
+
+    return `    <testcase ${attributes}>\n${body.join('\n')}\n    </testcase>`;
+  });
+
+  const counts = `tests="${summary.total}" failures="${summary.failed}" errors="${summary.errors}" time="${seconds(summary.durationMs)}"`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="flash-loop" ${counts}>
+  <testsuite name="${escapeXml(suiteName)}" ${counts} timestamp="${summary.startedAt}">
+${testcases.join('\n')}
+  </testsuite>
+</testsuites>
+`;
+}
+
+/**
+ * コンソールに表示する結果一覧 (1ゴール1行と合計)
+ */
+export function formatBatchSummary(summary: BatchSummary): string[] {
+  const width = Math.max(...summary.results.map((result) => result.name.length), 4);
+  const lines = summary.results.map((result) => {
+    const mark = result.status === 'success' ? 'PASS' : result.status === 'error' ? 'ERR ' : 'FAIL';
+    const status = result.status === 'success' ? '' : ` ${result.status}: ${result.reason}`;
+    return `${mark}  ${result.name.padEnd(width)}  ${String(result.stepCount).padStart(3)} step(s)  ${seconds(result.durationMs)}s${status}`;
+  });
+  lines.push(
+    `${summary.passed} passed, ${summary.failed} failed, ${summary.errors} error(s) of ${summary.total} goal(s) in ${seconds(summary.durationMs)}s`
+  );
+  return lines;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(value: string): string {
+  return stripInvalidXmlChars(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * XML 1.0 で使えない制御文字 (タブ・改行・復帰以外の U+0000〜U+001F) を除く
+ */
+function stripInvalidXmlChars(value: string): string {
+  return [...value]
+    .filter((ch) => {
+      const code = ch.charCodeAt(0);
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+    })
+    .join('');
+}
@@ -0,0 +1,291 @@
+/**
+ * src/tools/codegen/python.ts
+ * 言語非依存のステップ記述を pytest-playwright (sync API) のコードに描画する
+ */
+import {
+  CodeStep,
+  HarOptions,
+  LocatorArg,
+  LocatorCall,
+  ResponseExpectation,
+  TestUseOptions,
+} from '../../types';
+import { DEFAULT_TEST_ID_ATTRIBUTE, SECRET_PLACEHOLDER_PATTERN } from '../../constants';
+
+/**
+ * camelCase のメソッド名・オプション名を Python API の snake_case に変換する
+ */
+function toSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, (ch) => `_${ch.toLowerCase()}`);
+}
+
+export function pyString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * 値を描画する。シークレットのプレースホルダは require_env (renderPythonRequireEnvHelper) の呼び出しに置き換える
+ */
+function pySecretValue(value: string): string {
+  const parts = value.split(SECRET_PLACEHOLDER_PATTERN);
+  if (parts.length === 1) return pyString(value);
+
+  return parts
+    .map((part, i) => (i % 2 === 1 ? `require_env(${pyString(part)})` : part && pyString(part)))
+    .filter(Boolean)
+    .join(' + ');
+}
+
+/**
+ * シークレットを参照するステップがある場合にファイル末尾へ出力するヘルパー (未設定なら明示的に失敗させる)
+ */
+export function renderPythonRequireEnvHelper(): string {
+  return `def require_env(name: str) -> str:
+    value = os.environ.get(name)
+    if value is None:
+        raise RuntimeError(f"Missing environment variable: {name}")
+    return value`;
+}
+
+function pyValue(value: string | number | boolean): string {
+  if (typeof value === 'string') return pyString(value);
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  return String(value);
+}
+
+/**
+ * オプションオブジェクトはキーワード引数として展開する
+ */
+function pyArgs(args: LocatorArg[]): string {
+  const rendered: string[] = [];
+  for (const arg of args) {
+    if (typeof arg === 'object') {
+      for (const [key, val] of Object.entries(arg)) {
+        rendered.push(`${toSnakeCase(key)}=${pyValue(val)}`);
+      }
+    } else {
+      rendered.push(pyValue(arg));
+    }
+  }
+  return rendered.join(', ');
+}
+
+/**
+ * デフォルト以外のテストID属性を使う場合のセットアップ行 (playwright フィクスチャを使用)
+ */
+export function renderPythonTestIdSetup(testIdAttribute?: string): string | null {
+  if (!testIdAttribute || testIdAttribute === DEFAULT_TEST_ID_ATTRIBUTE) return null;
+  return `playwright.selectors.set_test_id_attribute(${pyString(testIdAttribute)})`;
+}
+
+/**
+ * ブラウザコンテキストの引数を上書きするフィクスチャ (pytest-playwright の browser_context_args。不要なら null)
+ * ブラウザエンジンはフィクスチャでは切り替えられないため、pytest の --browser で指定する
+ */
+export function renderPythonContextArgs(options: TestUseOptions): string | null {
+  const { emulation = {}, storageState } = options;
+  const entries: string[] = [];
+  if (emulation.device) entries.push('**device');
+  if (emulation.viewport) {
+    entries.push(
+      `"viewport": {"width": ${emulation.viewport.width}, "height": ${emulation.viewport.height}}`
+    );
+  }
+  if (emulation.locale) entries.push(`"locale": ${pyString(emulation.locale)}`);
+  if (emulation.timezoneId) entries.push(`"timezone_id": ${pyString(emulation.timezoneId)}`);
+  if (emulation.geolocation) {
+    const { latitude, longitude } = emulation.geolocation;
+    entries.push(`"geolocation": {"latitude": ${latitude}, "longitude": ${longitude}}`);
+    entries.push('"permissions": ["geolocation"]');
+  }
+  if (emulation.colorScheme) entries.push(`"color_scheme": ${pyString(emulation.colorScheme)}`);
+  if (storageState) entries.push(`"storage_state": ${pyString(storageState)}`);
+  if (entries.length === 0) return null;
+
+  const lines = [
+    '@pytest.fixture',
+    `def browser_context_args(browser_context_args${emulation.device ? ', playwright' : ''}):`,
+  ];
+  if (emulation.device) {
+    // デバイス定義の default_browser_type は new_context の引数ではないため除く
+    lines.push(
+      `    device = dict(playwright.devices[${pyString(emulation.device)}])`,
+      '    device.pop("default_browser_type", None)'
+    );
+  }
+  if (entries.length === 1) {
+    lines.push(`    return {**browser_context_args, ${entries[0]}}`);
+  } else {
+    lines.push(
+      '    return {',
+      '        **browser_context_args,',
+      ...entries.map((entry) => `        ${entry},`),
+      '    }'
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 記録した HAR でネットワークを再生する場合のセットアップ行 (不要なら null)
+ */
+export function renderPythonRouteFromHar(
+  har?: Pick<HarOptions, 'path' | 'urlFilter'>
+): string | null {
+  if (!har) return null;
+  const options = har.urlFilter ? `, url=${pyString(har.urlFilter)}` : '';
+  return `page.route_from_har(${pyString(har.path)}${options})`;
+}
+
+/**
+ * 未捕捉のページエラーでテストを失敗させる場合のセットアップ行と、テスト末尾の検証行 (不要なら null)
+ */
+export function renderPythonPageErrorGuard(
+  failOnPageError?: boolean
+): { setup: string; check: string } | null {
+  if (!failOnPageError) return null;
+  return {
+    setup: 'page_errors = []\npage.on("pageerror", lambda error: page_errors.append(error))',
+    check: 'assert not page_errors, f"Unexpected page errors: {page_errors}"',
+  };
+}
+
+export function renderPythonLocator(calls: LocatorCall[], root = 'page'): string {
+  return root + calls.map((call) => `.${toSnakeCase(call.method)}(${pyArgs(call.args)})`).join('');
+}
+
+/**
+ * ステップを Python のコードに描画する (複数行の場合は改行区切り)
+ */
+export function renderPythonStep(step: CodeStep): string {
+  const loc = renderPythonLocator(step.locator ?? []);
+  const val = step.value !== undefined ? pySecretValue(step.value) : '';
+
+  switch (step.actionType) {
+    case 'navigate':
+      return `page.goto(${val})`;
+    case 'reload':
+      return 'page.reload()';
+    case 'go_back':
+      return 'page.go_back()';
+    case 'close_tab':
+      return 'page.close()';
+    case 'finish':
+      return '# Task Finished';
+
+    case 'switch_tab': {
+      const target = step.value || '';
+      const index = parseInt(target, 10);
+      if (!isNaN(index)) {
+        return `page.context.pages[${index}].bring_to_front()`;
+      }
+      return [
+        `# Switch to tab matching ${pyString(target)}`,
+        'for p in page.context.pages:',
+        `    if ${pyString(target)} in p.url or ${pyString(target)} in p.title():`,
+        '        p.bring_to_front()',
+        '        break',
+      ].join('\n');
+    }
+
+    case 'handle_dialog':
+      return `page.once("dialog", lambda dialog: dialog.${step.value === 'accept' ? 'accept' : 'dismiss'}())`;
+
+    case 'wait_for_element':
+      return `${loc}.wait_for(state="visible")`;
+
+    case 'wait_for_response':
+    case 'assert_response':
+      return renderPythonResponseStep(step, step.locator?.length ? loc : undefined);
+
+    case 'extract':
+      return `print(${loc}.inner_text())`;
+
+    case 'click':
+      return `${loc}.click()`;
+    case 'dblclick':
+      return `${loc}.dblclick()`;
+    case 'right_click':
+      return `${loc}.click(button="right")`;
+    case 'hover':
+      return `${loc}.hover()`;
+    case 'focus':
+      return `${loc}.focus()`;
+    case 'fill':
+      return `${loc}.fill(${val})`;
+    case 'type':
+      return `${loc}.press_sequentially(${val})`;
+    case 'clear':
+      return `${loc}.clear()`;
+    case 'check':
+      return `${loc}.check()`;
+    case 'uncheck':
+      return `${loc}.uncheck()`;
+    case 'keypress':
+      return `${loc}.press(${val})`;
+    case 'scroll':
+      return `${loc}.scroll_into_view_if_needed()`;
+
+    case 'upload': {
+      const files = step.files ?? [step.value || ''];
+      return files.length > 1
+        ? `${loc}.set_input_files([${files.map(pyString).join(', ')}])`
+        : `${loc}.set_input_files(${pyString(files[0])})`;
+    }
+
+    case 'select_option':
+      return `${loc}.select_option(${step.selectBy === 'value' ? 'value' : 'label'}=${val})`;
+
+    case 'drag_and_drop':
+      return step.targetLocator
+        ? `${loc}.drag_to(${renderPythonLocator(step.targetLocator)})`
+        : `# drag_and_drop: unknown drop target for ${loc}`;
+
+    case 'assert_visible':
+      return `expect(${loc}).to_be_visible()`;
+    case 'assert_text':
+      return `expect(${loc}).to_contain_text(${val})`;
+    case 'assert_value':
+      return `expect(${loc}).to_have_value(${val})`;
+    case 'assert_url':
+      return `expect(page).to_have_url(${val})`;
+
+    default:
+      return `${loc}.${toSnakeCase(step.actionType)}(${val})`;
+  }
+}
+
+/**
+ * レスポンスの待機 (とトリガーのクリック・検証) を描画する
+ */
+function renderPythonResponseStep(step: CodeStep, triggerCode?: string): string {
+  const expected = step.response!;
+  const predicate = renderPythonResponsePredicate(expected);
+  const lines = triggerCode
+    ? [
+        `with page.expect_response(${predicate}) as response_info:`,
+        `    ${triggerCode}.click()`,
+        'response = response_info.value',
+      ]
+    : [`response = page.wait_for_event("response", ${predicate})`];
+
+  if (step.actionType === 'assert_response') {
+    lines.push(
+      expected.status !== undefined
+        ? `assert response.status == ${expected.status}`
+        : 'assert response.ok'
+    );
+    if (expected.bodyIncludes !== undefined) {
+      lines.push(`assert ${pyString(expected.bodyIncludes)} in response.text()`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function renderPythonResponsePredicate(expected: ResponseExpectation): string {
+  const conditions = [`${pyString(expected.urlIncludes)} in response.url`];
+  if (expected.method) {
+    conditions.push(`response.request.method == ${pyString(expected.method.toUpperCase())}`);
+  }
+  return `lambda response: ${conditions.join(' and ')}`;
+}
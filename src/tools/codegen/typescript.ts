@@ -0,0 +1,321 @@
+/**
+ * src/tools/codegen/typescript.ts
+ * 言語非依存のステップ記述を Playwright Test (TypeScript) のコードに描画する
+ */
+import {
+  CodeStep,
+  HarOptions,
+  LocatorArg,
+  LocatorCall,
+  ResponseExpectation,
+  TestUseOptions,
+} from '../../types';
+import { DEFAULT_TEST_ID_ATTRIBUTE, SECRET_PLACEHOLDER_PATTERN } from '../../constants';
+
+/**
+ * 文字列をシングルクォートのTSリテラルに変換する
+ */
+export function tsString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * 値を描画する。シークレットのプレースホルダは requireEnv (renderRequireEnvHelper) の呼び出しに置き換える
+ */
+function tsValue(value: string): string {
+  // split はキャプチャグループ (シークレット名) を奇数番目に含める
+  const parts = value.split(SECRET_PLACEHOLDER_PATTERN);
+  if (parts.length === 1) return tsString(value);
+  if (parts.length === 3 && !parts[0] && !parts[2]) return `requireEnv(${tsString(parts[1])})`;
+
+  const template = parts
+    .map((part, i) =>
+      i % 2 === 1
+        ? `\${requireEnv(${tsString(part)})}`
+        : part.replace(/[\\`$]/g, '\\$&').replace(/\n/g, '\\n')
+    )
+    .join('');
+  return `\`${template}\``;
+}
+
+/**
+ * シークレットを参照するステップがある場合にファイル末尾へ出力するヘルパー
+ * 環境変数が未設定のまま空文字や "undefined" を入力しないよう、明示的に失敗させる
+ */
+export function renderRequireEnvHelper(): string {
+  return `function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (value === undefined) throw new Error(\`Missing environment variable: \${name}\`);
+  return value;
+}`;
+}
+
+function tsArg(arg: LocatorArg): string {
+  if (typeof arg === 'string') return tsString(arg);
+  if (typeof arg === 'number') return String(arg);
+
+  const entries = Object.entries(arg).map(
+    ([key, val]) => `${key}: ${typeof val === 'string' ? tsString(val) : String(val)}`
+  );
+  return `{ ${entries.join(', ')} }`;
+}
+
+/**
+ * デフォルト以外のテストID属性を使う場合のセットアップ行 (不要なら null)
+ */
+export function renderTestIdSetup(testIdAttribute?: string): string | null {
+  if (!testIdAttribute || testIdAttribute === DEFAULT_TEST_ID_ATTRIBUTE) return null;
+  return `selectors.setTestIdAttribute(${tsString(testIdAttribute)});`;
+}
+
+/**
+ * テストファイル全体に適用する test.use の文 (不要なら null)
+ * デバイスを指定した場合は devices のインポートが必要
+ */
+export function renderTestUse(options: TestUseOptions): string | null {
+  const { browser, emulation = {}, storageState } = options;
+  const entries: string[] = [];
+  if (emulation.device) entries.push(`...devices[${tsString(emulation.device)}]`);
+  if (browser) entries.push(`browserName: ${tsString(browser)}`);
+  if (emulation.viewport) {
+    entries.push(
+      `viewport: { width: ${emulation.viewport.width}, height: ${emulation.viewport.height} }`
+    );
+  }
+  if (emulation.locale) entries.push(`locale: ${tsString(emulation.locale)}`);
+  if (emulation.timezoneId) entries.push(`timezoneId: ${tsString(emulation.timezoneId)}`);
+  if (emulation.geolocation) {
+    const { latitude, longitude } = emulation.geolocation;
+    entries.push(`geolocation: { latitude: ${latitude}, longitude: ${longitude} }`);
+    entries.push(`permissions: ['geolocation']`);
+  }
+  if (emulation.colorScheme) entries.push(`colorScheme: ${tsString(emulation.colorScheme)}`);
+  if (storageState) entries.push(`storageState: ${tsString(storageState)}`);
+
+  if (entries.length === 0) return null;
+  if (entries.length === 1) return `test.use({ ${entries[0]} });`;
+  return `test.use({\n${entries.map((entry) => `  ${entry},`).join('\n')}\n});`;
+}
+
+/**
+ * 記録した HAR でネットワークを再生する場合のセットアップ行 (不要なら null)
+ */
+export function renderRouteFromHar(har?: Pick<HarOptions, 'path' | 'urlFilter'>): string | null {
+  if (!har) return null;
+  const options = har.urlFilter ? `, { url: ${tsString(har.urlFilter)} }` : '';
+  return `await page.routeFromHAR(${tsString(har.path)}${options});`;
+}
+
+/**
+ * 未捕捉のページエラーでテストを失敗させる場合のセットアップ行 (不要なら null)
+ * エラーは soft assertion として記録し、テスト終了時にまとめて失敗させる
+ */
+export function renderPageErrorGuard(failOnPageError?: boolean): string | null {
+  if (!failOnPageError) return null;
+  return "page.on('pageerror', (error) => expect.soft(error, 'Unexpected page error').toBeUndefined());";
+}
+
+/**
+ * レスポンスの待機 (とトリガーのクリック・検証) を描画する
+ * クリックが失敗しても待機側の reject が未処理にならないよう Promise.all で並行させ、
+ * 検証で使う変数は同じテスト内の別のステップと衝突しないようブロックに閉じ込める
+ */
+function renderResponseStep(step: CodeStep, triggerCode?: string): string {
+  const expected = step.response!;
+  const waitCode = `page.waitForResponse(${renderResponsePredicate(expected)})`;
+  const isAssert = step.actionType === 'assert_response';
+
+  const waitLines = triggerCode
+    ? [
+        `${isAssert ? 'const [response] = ' : ''}await Promise.all([`,
+        `  ${waitCode},`,
+        `  ${triggerCode}.click(),`,
+        ']);',
+      ]
+    : [`${isAssert ? 'const response = ' : ''}await ${waitCode};`];
+  if (!isAssert) return waitLines.join('\n');
+
+  const lines = [
+    ...waitLines,
+    expected.status !== undefined
+      ? `expect(response.status()).toBe(${expected.status});`
+      : 'expect(response.ok()).toBeTruthy();',
+  ];
+  if (expected.bodyIncludes !== undefined) {
+    lines.push(`expect(await response.text()).toContain(${tsString(expected.bodyIncludes)});`);
+  }
+  return ['{', ...lines.map((line) => `  ${line}`), '}'].join('\n');
+}
+
+function renderResponsePredicate(expected: ResponseExpectation): string {
+  const conditions = [`response.url().includes(${tsString(expected.urlIncludes)})`];
+  if (expected.method) {
+    conditions.push(`response.request().method() === ${tsString(expected.method.toUpperCase())}`);
+  }
+  return `(response) => ${conditions.join(' && ')}`;
+}
+
+/**
+ * ロケータチェーンを描画する (起点となる変数名を指定可能)
+ */
+export function renderTypeScriptLocator(calls: LocatorCall[], root = 'page'): string {
+  return root + calls.map((call) => `.${call.method}(${call.args.map(tsArg).join(', ')})`).join('');
+}
+
+/**
+ * ステップを TypeScript のコードに描画する
+ * @param locatorCode ロケータの描画結果を差し替える場合に指定 (Page Object 用)
+ */
+export function renderTypeScriptStep(
+  step: CodeStep,
+  locatorCode?: string,
+  targetLocatorCode?: string
+): string {
+  const selectorCode = locatorCode ?? renderTypeScriptLocator(step.locator ?? []);
+  const val = step.value !== undefined ? tsValue(step.value) : '';
+
+  switch (step.actionType) {
+    // --- Page / Context ---
+    case 'navigate':
+      return `await page.goto(${val});`;
+    case 'reload':
+      return 'await page.reload();';
+    case 'go_back':
+      return 'await page.goBack();';
+    case 'close_tab':
+      return 'await page.close();';
+    case 'finish':
+      return '// Task Finished';
+
+    case 'switch_tab': {
+      const target = step.value || '';
+      const index = parseInt(target, 10);
+      if (!isNaN(index)) {
+        return `await page.context().pages()[${index}].bringToFront();`;
+      }
+      // 文字列（タイトル/URL）指定の場合のスニペット生成
+      const escapedTarget = target.replace(/'/g, "\\'");
+      return `
+// Switch to tab matching "${escapedTarget}"
+for (const p of page.context().pages()) {
+  if (p.url().includes('${escapedTarget}') || (await p.title()).includes('${escapedTarget}')) {
+    await p.bringToFront();
+    break;
+  }
+}`.trim();
+    }
+
+    case 'handle_dialog':
+      return `// Note: Simple dialog handling. (Runtime uses ContextManager for auto-dismiss)
+page.once('dialog', dialog => dialog.${step.value === 'accept' ? 'accept' : 'dismiss'}());`;
+
+    case 'wait_for_element':
+      return `await ${selectorCode}.waitFor({ state: 'visible' });`;
+
+    case 'wait_for_response':
+    case 'assert_response':
+      return renderResponseStep(step, step.locator?.length ? selectorCode : undefined);
+
+    // --- Data ---
+    case 'extract':
+      return `await test.info().attach('extracted', { body: await ${selectorCode}.innerText(), contentType: 'text/plain' });`;
+
+    // --- Element Interaction ---
+    case 'click':
+      return `await ${selectorCode}.click();`;
+    case 'dblclick':
+      return `await ${selectorCode}.dblclick();`;
+    case 'right_click':
+      return `await ${selectorCode}.click({ button: 'right' });`;
+    case 'hover':
+      return `await ${selectorCode}.hover();`;
+    case 'fill':
+      return `await ${selectorCode}.fill(${val});`;
+    case 'type':
+      return `await ${selectorCode}.pressSequentially(${val});`;
+    case 'clear':
+      return `await ${selectorCode}.clear();`;
+    case 'check':
+      return `await ${selectorCode}.check();`;
+    case 'uncheck':
+      return `await ${selectorCode}.uncheck();`;
+
+    case 'upload': {
+      const files = step.files ?? [step.value || ''];
+      if (files.length > 1) {
+        // 配列リテラルとしてコード生成
+        return `await ${selectorCode}.setInputFiles([${files.map(tsString).join(', ')}]);`;
+      }
+      // 単一ファイル
+      return `await ${selectorCode}.setInputFiles(${tsString(files[0])});`;
+    }
+
+    case 'keypress':
+      return `await ${selectorCode}.press(${val});`;
+
+    case 'focus':
+      return `await ${selectorCode}.focus();`;
+
+    case 'select_option':
+      if (step.selectBy === 'value') {
+        return `await ${selectorCode}.selectOption({ value: ${val} });`;
+      }
+      return `await ${selectorCode}.selectOption({ label: ${val} });`;
+
+    case 'assert_visible':
+      return `await expect(${selectorCode}).toBeVisible();`;
+    case 'assert_text':
+      return `await expect(${selectorCode}).toContainText(${val});`;
+    case 'assert_value':
+      return `await expect(${selectorCode}).toHaveValue(${val});`;
+    case 'assert_url':
+      return `await expect(page).toHaveURL(${val});`;
+
+    case 'drag_and_drop': {
+      const auxCode =
+        targetLocatorCode ??
+        (step.targetLocator ? renderTypeScriptLocator(step.targetLocator) : undefined);
+      return `await ${selectorCode}.dragTo(${auxCode || '/* Unknown Target */'});`;
+    }
+
+    case 'scroll':
+      return `await ${selectorCode}.scrollIntoViewIfNeeded();`;
+
+    default:
+      // 引数があるかわからないため、安全策としてvalを入れているが、
+      // 上記で主要なアクションはカバーされているはず
+      return `await ${selectorCode}.${step.actionType}(${val});`;
+  }
+}
+
+/**
+ * コードを test.step ブロックで包む (thought が無い場合はフラットにインデントのみ)
+ */
+export function renderTestStepBlock(code: string, thought?: string): string {
+  if (!thought) {
+    // フラットな追記
+    return code
+      .split('\n')
+      .map((line) => `  ${line}`)
+      .join('\n');
+  }
+
+  // エスケープ処理: バックスラッシュを先にエスケープし、その後にシングルクォート等を処理
+  // 文字数制限を追加 (200文字)
+  const safeThought = thought
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, ' ')
+    .slice(0, 200);
+
+  // インデント調整
+  const indentedCode = code
+    .split('\n')
+    .map((line) => `    ${line}`)
+    .join('\n');
+
+  return `
+  await test.step('${safeThought}', async () => {
+${indentedCode}
+  });`;
+}
@@ -4,35 +4,81 @@
  */
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
+import { BrowserName, CodegenTarget, CodeStep, EmulationOptions, HarOptions } from '../types';
+import { SECRET_PLACEHOLDER_PATTERN } from '../constants';
+import {
+  renderPageErrorGuard,
+  renderRequireEnvHelper,
+  renderRouteFromHar,
+  renderTestIdSetup,
+  renderTestStepBlock,
+  renderTestUse,
+  renderTypeScriptStep,
+} from './codegen/typescript';
+import { PageObjectGenerator } from './pom-generator';
+import { PythonGenerator } from './python-generator';
+import { JsonStepGenerator } from './json-generator';
+
+/**
+ * ジェネレータ共通の出力設定
+ */
+export interface GeneratorOptions {
+  testIdAttribute?: string; // デフォルト以外の場合、セットアップ行を出力する
+  harReplay?: Pick<HarOptions, 'path' | 'urlFilter'>; // 指定時、記録した HAR でネットワークを再生する
+  failOnPageError?: boolean; // 未捕捉のページエラーでテストを失敗させる
+  storageState?: string; // 指定時、test.use({ storageState }) で認証状態を読み込む
+  browser?: BrowserName; // 指定時、test.use({ browserName }) を出力する
+  emulation?: EmulationOptions; // デバイス・ロケールなどを test.use に出力する
+  outputPath?: string; // 出力先 (pom ではディレクトリ)。未指定時はカレントディレクトリのタイムスタンプ付きの名前
+}
 
 export interface IGenerator {
   init(goal: string): Promise<void>;
   /**
-   * コード行を追加 (thoughtを含めることでtest.step化)
+   * 検証済みステップを追加 (thoughtを含めることでtest.step化)
    */
-  appendCode(code: string, thought?: string): Promise<void>;
+  appendStep(step: CodeStep, thought?: string): Promise<void>;
   finish(): Promise<void>;
   getOutput(): string;
+  /**
+   * 生成したコード全体を返す (ファイル出力の場合はファイルの内容)
+   */
+  getCode(): Promise<string>;
 }
 
 export class FileGenerator implements IGenerator {
   private filePath: string;
+  private options: GeneratorOptions;
+  private usesSecrets = false;
 
-  constructor() {
+  constructor(options: GeneratorOptions = {}) {
+    this.options = options;
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-    this.filePath = path.join(process.cwd(), `generated_test_${timestamp}.spec.ts`);
+    this.filePath = options.outputPath
+      ? path.resolve(options.outputPath)
+      : path.join(process.cwd(), `generated_test_${timestamp}.spec.ts`);
   }
 
   async init(goal: string): Promise<void> {
-    const header = `import { test, expect } from '@playwright/test';
-
+    const testIdSetup = renderTestIdSetup(this.options.testIdAttribute);
+    const setup = [
+      testIdSetup,
+      renderRouteFromHar(this.options.harReplay),
+      renderPageErrorGuard(this.options.failOnPageError),
+    ]
+      .filter(Boolean)
+      .map((line) => `  ${line}\n`)
+      .join('');
+    const testUse = renderTestUse(this.options);
+    const header = `import { test, expect${testIdSetup ? ', selectors' : ''}${this.options.emulation?.device ? ', devices' : ''} } from '@playwright/test';
+${testUse ? `\n${testUse}\n` : ''}
 /**
  * Goal: ${goal}
  * Generated by Flash-Loop
  */
 test('FlashLoop Auto-Generated Test', async ({ page }) => {
   test.setTimeout(120000);
-
+${setup}
 `;
     try {
       await fs.writeFile(this.filePath, header, 'utf-8');
@@ -42,67 +88,94 @@ test('FlashLoop Auto-Generated Test', async ({ page }) => {
     }
   }
 
-  async appendCode(code: string, thought?: string): Promise<void> {
+  async appendStep(step: CodeStep, thought?: string): Promise<void> {
     // thoughtがある場合は test.step でラップする
-    let block = '';
-    if (thought) {
-      // エスケープ処理: バックスラッシュを先にエスケープし、その後にシングルクォート等を処理
-      // 文字数制限を追加 (200文字)
-      const safeThought = thought
-        .replace(/\\/g, '\\\\')
-        .replace(/'/g, "\\'")
-        .replace(/\n/g, ' ')
-        .slice(0, 200);
-
-      // インデント調整
-      const indentedCode = code
-        .split('\n')
-        .map((line) => `    ${line}`)
-        .join('\n');
-
-      block = `
-  await test.step('${safeThought}', async () => {
-${indentedCode}
-  });`;
-    } else {
-      // フラットな追記
-      block = code
-        .split('\n')
-        .map((line) => `  ${line}`)
-        .join('\n');
-    }
-
+    const block = renderTestStepBlock(renderTypeScriptStep(step), thought);
     await fs.appendFile(this.filePath, `${block}\n`, 'utf-8');
+    if (usesSecret(step)) this.usesSecrets = true;
   }
 
   async finish(): Promise<void> {
-    await fs.appendFile(this.filePath, '});\n', 'utf-8');
+    // 関数宣言は巻き上げられるため、テストの後ろに置いても参照できる
+    const helper = this.usesSecrets ? `\n${renderRequireEnvHelper()}\n` : '';
+    await fs.appendFile(this.filePath, `});\n${helper}`, 'utf-8');
   }
 
   getOutput(): string {
     return this.filePath;
   }
+
+  async getCode(): Promise<string> {
+    return fs.readFile(this.filePath, 'utf-8');
+  }
 }
 
 export class MemoryGenerator implements IGenerator {
   private codeLines: string[] = [];
+  private options: GeneratorOptions;
+  private usesSecrets = false;
+
+  constructor(options: GeneratorOptions = {}) {
+    this.options = options;
+  }
 
   async init(goal: string): Promise<void> {
     this.codeLines.push(`// Start: ${goal}`);
+    // test.use はテストの外側に書く必要があるため、利用側への注記として残す
+    const testUse = renderTestUse(this.options);
+    if (testUse) this.codeLines.push(`// Requires: ${testUse.replace(/\n/g, '\n// ')}`);
+    const testIdSetup = renderTestIdSetup(this.options.testIdAttribute);
+    if (testIdSetup) this.codeLines.push(testIdSetup);
+    const harSetup = renderRouteFromHar(this.options.harReplay);
+    if (harSetup) this.codeLines.push(harSetup);
+    const pageErrorGuard = renderPageErrorGuard(this.options.failOnPageError);
+    if (pageErrorGuard) this.codeLines.push(pageErrorGuard);
   }
 
-  async appendCode(code: string, thought?: string): Promise<void> {
+  async appendStep(step: CodeStep, thought?: string): Promise<void> {
     if (thought) {
       this.codeLines.push(`// Step: ${thought}`);
     }
-    this.codeLines.push(code);
+    this.codeLines.push(renderTypeScriptStep(step));
+    if (usesSecret(step)) this.usesSecrets = true;
   }
 
   async finish(): Promise<void> {
+    if (this.usesSecrets) this.codeLines.push(renderRequireEnvHelper());
     this.codeLines.push('// End');
   }
 
   getOutput(): string {
     return this.codeLines.join('\n');
   }
+
+  async getCode(): Promise<string> {
+    return this.getOutput();
+  }
+}
+
+/**
+ * ステップの値がシークレットのプレースホルダを含むか (requireEnv ヘルパーの出力要否)
+ */
+export function usesSecret(step: CodeStep): boolean {
+  return step.value !== undefined && SECRET_PLACEHOLDER_PATTERN.test(step.value);
+}
+
+/**
+ * 出力形式に応じたファイル出力用ジェネレータを生成する (CLIモード用)
+ */
+export function createGenerator(
+  target: CodegenTarget = 'typescript',
+  options: GeneratorOptions = {}
+): IGenerator {
+  switch (target) {
+    case 'pom':
+      return new PageObjectGenerator(options);
+    case 'python':
+      return new PythonGenerator(options);
+    case 'json':
+      return new JsonStepGenerator(options);
+    default:
+      return new FileGenerator(options);
+  }
 }
@@ -0,0 +1,153 @@
+/**
+ * src/tools/interactive.ts
+ * --interactive モード: 各アクションを実行前に表示し、人が承認・修正・スキップ・指示・終了を選ぶ
+ */
+import { createInterface } from 'node:readline/promises';
+import chalk from 'chalk';
+import { BeforeExecuteDecision, FlashLoopHooks, HookContext, ObserveEvent } from '../core/hooks';
+import { ILogger } from './logger';
+import { ActionPlan, ActionTypeEnum, ElementContainer } from '../types';
+
+export class InteractiveReviewer implements FlashLoopHooks {
+  private logger: ILogger;
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  // 直近の観測結果 (ID の検証と要素の説明表示用)
+  private elementMap = new Map<string, ElementContainer>();
+
+  constructor(
+    logger: ILogger,
+    input: NodeJS.ReadableStream = process.stdin,
+    output: NodeJS.WritableStream = process.stdout
+  ) {
+    this.logger = logger;
+    this.input = input;
+    this.output = output;
+  }
+
+  onObserve(event: ObserveEvent): void {
+    this.elementMap = event.elementMap;
+  }
+
+  async beforeExecute(plan: ActionPlan, context: HookContext): Promise<BeforeExecuteDecision> {
+    // スピナーと入力プロンプトが混ざらないよう止めておく
+    this.logger.stop();
+    this.print(`\n${chalk.cyan(`Step ${context.step}`)} ${chalk.gray(plan.thought)}`);
+    this.print(`  ${this.describePlan(plan)}`);
+
+    for (;;) {
+      const answer = await this.ask(
+        '[a]pprove / [e]dit / [s]kip / [i]nstruct / [d]one (default: approve) > '
+      );
+
+      switch (answer.trim().toLowerCase()) {
+        case '':
+        case 'a':
+          return {};
+
+        case 'e': {
+          const edited = await this.editPlan(plan);
+          if (!edited) continue;
+          return {
+            plan: edited,
+            note: `USER CORRECTION: replaced "${summarize(plan)}" with "${summarize(edited)}". Prefer this choice for similar steps.`,
+          };
+        }
+
+        case 's':
+          return { skip: true, note: `USER SKIPPED: "${summarize(plan)}" must not be performed.` };
+
+        case 'i': {
+          const instruction = (await this.ask('Instruction > ')).trim();
+          if (!instruction) continue;
+          return { skip: true, note: `USER INSTRUCTION: ${instruction}` };
+        }
+
+        case 'd':
+          return { finish: 'Marked as done by the user.' };
+
+        default:
+          this.print(chalk.yellow('Unknown choice.'));
+      }
+    }
+  }
+
+  /**
+   * アクションタイプ・対象・値を対話的に修正する (空入力は現在の値を維持)
+   */
+  private async editPlan(plan: ActionPlan): Promise<ActionPlan | null> {
+    const typeInput = (await this.ask(`Action type [${plan.actionType}] > `)).trim();
+    const actionType = ActionTypeEnum.safeParse(typeInput || plan.actionType);
+    if (!actionType.success) {
+      this.print(
+        chalk.yellow(`Unknown action type. Available: ${ActionTypeEnum.options.join(', ')}`)
+      );
+      return null;
+    }
+
+    const targetInput = (await this.ask(`Target ID [${plan.targetId ?? 'none'}] > `)).trim();
+    const targetId = targetInput === '-' ? undefined : targetInput || plan.targetId;
+    if (targetId && !this.elementMap.has(targetId)) {
+      this.print(chalk.yellow(`Target ${targetId} is not in the current observation.`));
+      return null;
+    }
+
+    const valueInput = await this.ask(`Value [${plan.value ?? 'none'}] > `);
+    const value = valueInput === '-' ? undefined : valueInput || plan.value;
+
+    return {
+      ...plan,
+      thought: `${plan.thought} (edited by the user)`,
+      actionType: actionType.data,
+      targetId,
+      value,
+      followUpActions: undefined,
+    };
+  }
+
+  private describePlan(plan: ActionPlan): string {
+    const target = plan.targetId ? this.elementMap.get(plan.targetId) : undefined;
+    const parts = [chalk.bold(plan.actionType)];
+    if (plan.targetId) {
+      parts.push(`[${plan.targetId}]${target ? ` ${chalk.gray(target.description)}` : ''}`);
+    }
+    if (plan.value !== undefined) parts.push(`value: ${JSON.stringify(plan.value)}`);
+    return parts.join(' ');
+  }
+
+  private async ask(question: string): Promise<string> {
+    const rl = createInterface({ input: this.input, output: this.output });
+    try {
+      return await rl.question(question);
+    } finally {
+      rl.close();
+    }
+  }
+
+  private print(text: string): void {
+    this.output.write(`${text}\n`);
+  }
+}
+
+/**
+ * y/N で確認を求める (安全ポリシーの confirm ルール用)
+ */
+export async function askConfirmation(
+  message: string,
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<boolean> {
+  const rl = createInterface({ input, output });
+  try {
+    const answer = await rl.question(`${chalk.yellow('⚠')} ${message} [y/N] > `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+function summarize(plan: ActionPlan): string {
+  return [plan.actionType, plan.targetId, plan.value !== undefined ? `"${plan.value}"` : undefined]
+    .filter(Boolean)
+    .join(' ');
+}
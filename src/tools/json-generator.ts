@@ -0,0 +1,77 @@
+/**
+ * src/tools/json-generator.ts
+ * 言語非依存のステップ記述をそのまま JSON として出力するジェネレータ (外部ツール連携用)
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { BrowserName, CodeStep, EmulationOptions, HarOptions } from '../types';
+import { GeneratorOptions, IGenerator } from './generator';
+
+export interface JsonStepFile {
+  goal: string;
+  generatedBy: string;
+  generatedAt: string;
+  testIdAttribute?: string;
+  harReplay?: Pick<HarOptions, 'path' | 'urlFilter'>;
+  failOnPageError?: boolean;
+  storageState?: string;
+  browser?: BrowserName;
+  emulation?: EmulationOptions;
+  steps: Array<CodeStep & { thought?: string }>;
+}
+
+export class JsonStepGenerator implements IGenerator {
+  private filePath: string;
+  private output: JsonStepFile | null = null;
+  private options: GeneratorOptions;
+
+  constructor(options: GeneratorOptions = {}) {
+    this.options = options;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    this.filePath = options.outputPath
+      ? path.resolve(options.outputPath)
+      : path.join(process.cwd(), `generated_steps_${timestamp}.json`);
+  }
+
+  async init(goal: string): Promise<void> {
+    this.output = {
+      goal,
+      generatedBy: 'Flash-Loop',
+      generatedAt: new Date().toISOString(),
+      testIdAttribute: this.options.testIdAttribute,
+      harReplay: this.options.harReplay,
+      failOnPageError: this.options.failOnPageError,
+      storageState: this.options.storageState,
+      browser: this.options.browser,
+      emulation: this.options.emulation,
+      steps: [],
+    };
+    try {
+      await this.save();
+    } catch (error) {
+      throw new Error(`Failed to create steps file: ${error}`, { cause: error });
+    }
+  }
+
+  async appendStep(step: CodeStep, thought?: string): Promise<void> {
+    if (!this.output) throw new Error('JsonStepGenerator is not initialized.');
+    this.output.steps.push(thought ? { thought, ...step } : { ...step });
+    await this.save();
+  }
+
+  async finish(): Promise<void> {
+    await this.save();
+  }
+
+  getOutput(): string {
+    return this.filePath;
+  }
+
+  async getCode(): Promise<string> {
+    return fs.readFile(this.filePath, 'utf-8');
+  }
+
+  private async save(): Promise<void> {
+    await fs.writeFile(this.filePath, JSON.stringify(this.output, null, 2), 'utf-8');
+  }
+}
@@ -123,5 +123,49 @@ export class ConsoleLogger implements ILogger {
   }
 }
 
+/**
+ * バッチ実行用のロガー
+ * 並列に実行される各ゴールの出力を区別できるよう、行頭にゴール名を付けます。
+ */
+export class PrefixedLogger implements ILogger {
+  private prefix: string;
+
+  constructor(name: string) {
+    this.prefix = chalk.cyan(`[${name}]`);
+  }
+
+  start(msg: string): void {
+    console.log(`${this.prefix} ${msg}`);
+  }
+
+  stop(msg?: string): void {
+    if (msg) console.log(`${this.prefix} ${msg}`);
+  }
+
+  info(msg: string): void {
+    console.log(`${this.prefix} ℹ ${msg}`);
+  }
+
+  success(msg: string): void {
+    console.log(`${this.prefix} ${chalk.green(`✔ ${msg}`)}`);
+  }
+
+  fail(msg: string): void {
+    console.error(`${this.prefix} ${chalk.red(`✖ ${msg}`)}`);
+  }
+
+  error(msg: string): void {
+    console.error(`${this.prefix} ${chalk.red(`✖ ${msg}`)}`);
+  }
+
+  action(type: string, target: string): void {
+    console.log(`${this.prefix} ➤ Action: ${type} on [${target}]`);
+  }
+
+  thought(text: string): void {
+    console.log(`${this.prefix} ${chalk.gray(`💭 Thought: ${text}`)}`);
+  }
+}
+
 // デフォルトのロガーインスタンス（後方互換性や簡易アクセスのため）
 export const logger = new SpinnerLogger();
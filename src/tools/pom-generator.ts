@@ -0,0 +1,266 @@
+/**
+ * src/tools/pom-generator.ts
+ * Page Object Model 形式 (ページごとのクラス + それを利用する spec) を出力するジェネレータ
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { CodeStep, LocatorCall } from '../types';
+import { GeneratorOptions, IGenerator, usesSecret } from './generator';
+import {
+  renderPageErrorGuard,
+  renderRequireEnvHelper,
+  renderRouteFromHar,
+  renderTestIdSetup,
+  renderTestUse,
+  renderTestStepBlock,
+  renderTypeScriptLocator,
+  renderTypeScriptStep,
+} from './codegen/typescript';
+
+/**
+ * 1つのページ (URLのパス単位) に対応する Page Object
+ */
+interface PageObjectModel {
+  className: string;
+  fileName: string;
+  instanceName: string;
+  pathname: string;
+  // ロケータのキー (JSON) -> プロパティ名
+  elements: Map<string, { name: string; calls: LocatorCall[] }>;
+}
+
+// ロールごとのプロパティ名サフィックス
+const ROLE_SUFFIXES: Record<string, string> = {
+  button: 'Button',
+  link: 'Link',
+  textbox: 'Input',
+  checkbox: 'Checkbox',
+  radio: 'Radio',
+  combobox: 'Select',
+  tab: 'Tab',
+  heading: 'Heading',
+};
+
+export class PageObjectGenerator implements IGenerator {
+  private outputDir: string;
+  private goal = '';
+  private pages = new Map<string, PageObjectModel>();
+  private blocks: string[] = [];
+  private options: GeneratorOptions;
+  private usesSecrets = false;
+
+  constructor(options: GeneratorOptions = {}) {
+    this.options = options;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    this.outputDir = options.outputPath
+      ? path.resolve(options.outputPath)
+      : path.join(process.cwd(), `generated_pom_${timestamp}`);
+  }
+
+  async init(goal: string): Promise<void> {
+    this.goal = goal;
+    try {
+      await fs.mkdir(path.join(this.outputDir, 'pages'), { recursive: true });
+    } catch (error) {
+      throw new Error(`Failed to create output directory: ${error}`, { cause: error });
+    }
+  }
+
+  async appendStep(step: CodeStep, thought?: string): Promise<void> {
+    let code: string;
+
+    if (step.locator && step.url) {
+      const pageObject = this.getPageObject(step.url);
+      const locatorCode = this.registerElement(pageObject, step.locator);
+      const targetCode = step.targetLocator
+        ? this.registerElement(pageObject, step.targetLocator)
+        : undefined;
+      code = renderTypeScriptStep(step, locatorCode, targetCode);
+    } else {
+      // ページ操作 (navigate, reload 等) はそのまま spec に出力する
+      code = renderTypeScriptStep(step);
+    }
+
+    this.blocks.push(renderTestStepBlock(code, thought));
+    if (usesSecret(step)) this.usesSecrets = true;
+  }
+
+  async finish(): Promise<void> {
+    const pageObjects = [...this.pages.values()];
+
+    for (const pageObject of pageObjects) {
+      await fs.writeFile(
+        path.join(this.outputDir, 'pages', `${pageObject.fileName}.ts`),
+        this.renderPageObject(pageObject),
+        'utf-8'
+      );
+    }
+
+    const imports = pageObjects
+      .map((p) => `import { ${p.className} } from './pages/${p.fileName}';`)
+      .join('\n');
+    const instances = pageObjects
+      .map((p) => `  const ${p.instanceName} = new ${p.className}(page);`)
+      .join('\n');
+
+    // Page Object のコンストラクタでロケータを生成するため、インスタンス化より前に設定する
+    const testIdSetup = renderTestIdSetup(this.options.testIdAttribute);
+    const setup = [
+      testIdSetup,
+      renderRouteFromHar(this.options.harReplay),
+      renderPageErrorGuard(this.options.failOnPageError),
+    ]
+      .filter(Boolean)
+      .map((line) => `  ${line}\n`)
+      .join('');
+    const testUse = renderTestUse(this.options);
+    const spec = `import { test, expect${testIdSetup ? ', selectors' : ''}${this.options.emulation?.device ? ', devices' : ''} } from '@playwright/test';
+${imports}
+${testUse ? `\n${testUse}\n` : ''}
+/**
+ * Goal: ${this.goal}
+ * Generated by Flash-Loop (Page Object Model)
+ */
+test('FlashLoop Auto-Generated Test', async ({ page }) => {
+  test.setTimeout(120000);
+${setup}${instances}
+${this.blocks.join('\n')}
+});
+${this.usesSecrets ? `\n${renderRequireEnvHelper()}\n` : ''}`;
+    await fs.writeFile(this.getOutput(), spec, 'utf-8');
+  }
+
+  getOutput(): string {
+    return path.join(this.outputDir, 'flash-loop.spec.ts');
+  }
+
+  async getCode(): Promise<string> {
+    return fs.readFile(this.getOutput(), 'utf-8');
+  }
+
+  private getPageObject(url: string): PageObjectModel {
+    let pathname = '/';
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      // about:blank 等はルート扱い
+    }
+
+    const existing = this.pages.get(pathname);
+    if (existing) return existing;
+
+    const lastSegment = pathname.split('/').filter(Boolean).pop() || 'home';
+    const baseName = toPascalCase(lastSegment) || 'Home';
+
+    // 別パスで同名になる場合は連番を付ける
+    let className = `${baseName}Page`;
+    const usedNames = new Set([...this.pages.values()].map((p) => p.className));
+    for (let i = 2; usedNames.has(className); i++) className = `${baseName}${i}Page`;
+
+    const pageObject: PageObjectModel = {
+      className,
+      fileName: `${className.replace(/Page$/, '').toLowerCase()}.page`,
+      instanceName: className.charAt(0).toLowerCase() + className.slice(1),
+      pathname,
+      elements: new Map(),
+    };
+    this.pages.set(pathname, pageObject);
+    return pageObject;
+  }
+
+  /**
+   * ロケータを Page Object のプロパティとして登録し、spec 側での参照コードを返す
+   */
+  private registerElement(pageObject: PageObjectModel, calls: LocatorCall[]): string {
+    const key = JSON.stringify(calls);
+    let element = pageObject.elements.get(key);
+
+    if (!element) {
+      const baseName = elementName(calls);
+      const usedNames = new Set([...pageObject.elements.values()].map((e) => e.name));
+      let name = baseName;
+      for (let i = 2; usedNames.has(name) || name === 'page'; i++) name = `${baseName}${i}`;
+
+      element = { name, calls };
+      pageObject.elements.set(key, element);
+    }
+
+    return `${pageObject.instanceName}.${element.name}`;
+  }
+
+  private renderPageObject(pageObject: PageObjectModel): string {
+    const elements = [...pageObject.elements.values()];
+    const fields = elements.map((e) => `  readonly ${e.name}: Locator;`).join('\n');
+    const assignments = elements
+      .map((e) => `    this.${e.name} = ${renderTypeScriptLocator(e.calls)};`)
+      .join('\n');
+
+    return `import { Page, Locator } from '@playwright/test';
+
+/**
+ * Page Object for ${pageObject.pathname}
+ * Generated by Flash-Loop
+ */
+export class ${pageObject.className} {
+  readonly page: Page;
+${fields}
+
+  constructor(page: Page) {
+    this.page = page;
+${assignments}
+  }
+}
+`;
+  }
+}
+
+function toPascalCase(text: string): string {
+  return (text.match(/[A-Za-z0-9]+/g) || [])
+    .slice(0, 4)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+}
+
+/**
+ * ロケータから人が読めるプロパティ名を推測する (例: getByRole('button', { name: 'Log in' }) -> logInButton)
+ */
+function elementName(calls: LocatorCall[]): string {
+  // filter / nth などの絞り込みを除いた、要素自体を表す呼び出しから命名する
+  const last =
+    [...calls].reverse().find((call) => call.method.startsWith('getBy')) ?? calls[calls.length - 1];
+  const firstString = last?.args.find((arg): arg is string => typeof arg === 'string') || '';
+  const options = last?.args.find(
+    (arg): arg is Record<string, string | number | boolean> => typeof arg === 'object'
+  );
+
+  let words = '';
+  let suffix = '';
+  switch (last?.method) {
+    case 'getByRole':
+      words = String(options?.name ?? '');
+      suffix = ROLE_SUFFIXES[firstString] ?? toPascalCase(firstString);
+      break;
+    case 'getByPlaceholder':
+      words = firstString;
+      suffix = 'Input';
+      break;
+    case 'getByLabel':
+      words = firstString;
+      suffix = 'Field';
+      break;
+    case 'getByText':
+      words = firstString;
+      suffix = 'Text';
+      break;
+    case 'getByTestId':
+    case 'getByTitle':
+    case 'getByAltText':
+      words = firstString;
+      break;
+  }
+
+  const name = toPascalCase(words) + suffix || 'Element';
+  const camel = name.charAt(0).toLowerCase() + name.slice(1);
+  // 数字始まりは識別子として無効なため接頭辞を付ける
+  return /^[0-9]/.test(camel) ? `el${camel}` : camel;
+}
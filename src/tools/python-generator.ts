@@ -0,0 +1,113 @@
+/**
+ * src/tools/python-generator.ts
+ * pytest-playwright (sync API) 形式のテストを出力するジェネレータ
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { CodeStep } from '../types';
+import { GeneratorOptions, IGenerator, usesSecret } from './generator';
+import {
+  renderPythonContextArgs,
+  renderPythonPageErrorGuard,
+  renderPythonRequireEnvHelper,
+  renderPythonRouteFromHar,
+  renderPythonStep,
+  renderPythonTestIdSetup,
+} from './codegen/python';
+
+export class PythonGenerator implements IGenerator {
+  private filePath: string;
+  private options: GeneratorOptions;
+  private stepCount = 0;
+  private usesSecrets = false;
+
+  constructor(options: GeneratorOptions = {}) {
+    this.options = options;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    // pytest が収集できるよう test_ プレフィックスを付ける
+    this.filePath = options.outputPath
+      ? path.resolve(options.outputPath)
+      : path.join(
+          process.cwd(),
+          `test_generated_${timestamp.replace(/-/g, '_').replace('T', '_')}.py`
+        );
+  }
+
+  async init(goal: string): Promise<void> {
+    const testIdSetup = renderPythonTestIdSetup(this.options.testIdAttribute);
+    const setup = [
+      testIdSetup,
+      renderPythonRouteFromHar(this.options.harReplay),
+      renderPythonPageErrorGuard(this.options.failOnPageError)?.setup,
+    ]
+      .filter(Boolean)
+      .join('\n')
+      .split('\n')
+      .map((line) => `    ${line}\n`)
+      .join('');
+    const contextArgs = renderPythonContextArgs(this.options);
+    // pytest-playwright のエンジンはコマンドラインで選ぶため、実行方法を残す
+    const { browser } = this.options;
+    const runHint =
+      browser && browser !== 'chromium' ? `\nRun with: pytest --browser ${browser}` : '';
+    const header = `"""
+Goal: ${goal.replace(/"""/g, '\\"\\"\\"')}
+Generated by Flash-Loop${runHint}
+"""
+import os
+${contextArgs ? '\nimport pytest' : ''}
+from playwright.sync_api import Page, ${testIdSetup ? 'Playwright, ' : ''}expect
+
+${contextArgs ? `\n${contextArgs}\n\n` : ''}
+def test_flashloop_auto_generated(page: Page${testIdSetup ? ', playwright: Playwright' : ''}) -> None:
+${setup}`;
+    try {
+      await fs.writeFile(this.filePath, header, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to create test file: ${error}`, { cause: error });
+    }
+  }
+
+  async appendStep(step: CodeStep, thought?: string): Promise<void> {
+    const lines: string[] = [];
+    if (this.stepCount > 0 || this.hasSetup()) lines.push('');
+    if (thought) {
+      lines.push(`# Step: ${thought.replace(/\n/g, ' ').slice(0, 200)}`);
+    }
+    lines.push(...renderPythonStep(step).split('\n'));
+
+    const block = lines.map((line) => (line ? `    ${line}` : line)).join('\n');
+    await fs.appendFile(this.filePath, `${block}\n`, 'utf-8');
+    this.stepCount++;
+    if (usesSecret(step)) this.usesSecrets = true;
+  }
+
+  async finish(): Promise<void> {
+    const pageErrorGuard = renderPythonPageErrorGuard(this.options.failOnPageError);
+    if (pageErrorGuard) {
+      await fs.appendFile(this.filePath, `\n    ${pageErrorGuard.check}\n`, 'utf-8');
+    } else if (this.stepCount === 0) {
+      // ステップが無い場合も構文的に正しい関数にする
+      await fs.appendFile(this.filePath, '    pass\n', 'utf-8');
+    }
+    if (this.usesSecrets) {
+      await fs.appendFile(this.filePath, `\n\n${renderPythonRequireEnvHelper()}\n`, 'utf-8');
+    }
+  }
+
+  private hasSetup(): boolean {
+    return Boolean(
+      renderPythonTestIdSetup(this.options.testIdAttribute) ||
+        renderPythonRouteFromHar(this.options.harReplay) ||
+        renderPythonPageErrorGuard(this.options.failOnPageError)
+    );
+  }
+
+  getOutput(): string {
+    return this.filePath;
+  }
+
+  async getCode(): Promise<string> {
+    return fs.readFile(this.filePath, 'utf-8');
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * src/tools/suite-generator.ts
+ * 複数のゴールを1つの spec ファイルの test.describe にまとめて出力するジェネレータ
+ * 全テストに共通する先頭のステップは beforeEach に移し、既存ファイルへの追記にも対応する
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { CodeStep } from '../types';
+import { GeneratorOptions, IGenerator, usesSecret } from './generator';
+import {
+  renderPageErrorGuard,
+  renderRequireEnvHelper,
+  renderRouteFromHar,
+  renderTestIdSetup,
+  renderTestStepBlock,
+  renderTestUse,
+  renderTypeScriptStep,
+  tsString,
+} from './codegen/typescript';
+
+export interface SuiteOptions {
+  append?: boolean; // ファイルが既にある場合、上書きせずにテストを追加する
+}
+
+/**
+ * テストの出力方法
+ * - nested: test.describe の中に出力する (タイムアウトは describe で設定済み)
+ * - liftedSteps: beforeEach に移したステップ数 (セットアップ行も beforeEach に含まれる)。null は移していない
+ */
+interface RenderMode {
+  nested: boolean;
+  liftedSteps: number | null;
+}
+
+const BEFORE_EACH_LINE = '  test.beforeEach(async ({ page }) => {';
+const SUITE_TIMEOUT_MS = 120000;
+
+export class SuiteGenerator {
+  private filePath: string;
+  private options: SuiteOptions;
+  private tests: SuiteTestGenerator[] = [];
+
+  constructor(filePath: string, options: SuiteOptions = {}) {
+    this.filePath = path.resolve(filePath);
+    this.options = options;
+  }
+
+  /**
+   * 1テスト分のジェネレータを追加する (FlashLoopOptions.generatorFactory から呼ぶ)
+   * test.use はファイル全体の設定のため、すべてのテストで同じである必要がある
+   */
+  createTest(title: string, options: GeneratorOptions): SuiteTestGenerator {
+    const first = this.tests[0];
+    if (first && renderTestUse(first.options) !== renderTestUse(options)) {
+      throw new Error(
+        `"${title}" uses a different browser, emulation or storage state than "${first.title}". Tests in one suite must share them; write separate specs instead.`
+      );
+    }
+
+    const test = new SuiteTestGenerator(this.filePath, title, options);
+    this.tests.push(test);
+    return test;
+  }
+
+  /**
+   * 追加した順にテストを並べてファイルに書き出す (追記モードで既存のファイルがあれば、そこに追加する)
+   */
+  async write(): Promise<void> {
+    const existing = this.options.append
+      ? await fs.readFile(this.filePath, 'utf-8').catch(() => null)
+      : null;
+    const content = existing === null ? this.renderSuite() : this.appendTo(existing);
+
+    try {
+      await fs.writeFile(this.filePath, content, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to write suite file: ${error}`, { cause: error });
+    }
+  }
+
+  getOutput(): string {
+    return this.filePath;
+  }
+
+  private renderSuite(): string {
+    const options = this.tests[0]?.options ?? {};
+    const testUse = renderTestUse(options);
+    const titles = new Set<string>();
+    const lifted = sharedPrefixLength(this.tests);
+
+    const hook =
+      lifted > 0 ? `\n${BEFORE_EACH_LINE}\n${this.tests[0].renderPrefix(lifted)}\n  });\n` : '';
+    const tests = this.tests
+      .map((test) => {
+        const title = uniqueTitle(test.title, titles);
+        return `\n${test.render(title, { nested: true, liftedSteps: lifted > 0 ? lifted : null })}\n`;
+      })
+      .join('');
+
+    return `${renderImport(this.tests, [])}
+${testUse ? `\n${testUse}\n` : ''}
+/**
+ * Generated by Flash-Loop
+ */
+test.describe(${tsString(suiteTitleOf(this.filePath))}, () => {
+  test.describe.configure({ timeout: ${SUITE_TIMEOUT_MS} });
+${hook}${tests}});
+${this.tests.some((test) => test.usesSecrets()) ? `\n${renderRequireEnvHelper()}\n` : ''}`;
+  }
+
+  /**
+   * 既存の spec にテストを追加する
+   * describe があればその中に追加し、beforeEach と先頭のステップが一致しないテストは describe の外に追加する
+   */
+  private appendTo(source: string): string {
+    const lines = source.replace(/\n+$/, '').split('\n');
+
+    const existingUse = extractTestUse(lines);
+    if (existingUse === undefined) {
+      throw new Error(
+        `Cannot append to ${this.filePath}: its test.use statement could not be parsed.`
+      );
+    }
+    for (const test of this.tests) {
+      if ((renderTestUse(test.options) ?? '') !== (existingUse ?? '')) {
+        throw new Error(
+          `Cannot append "${test.title}" to ${this.filePath}: its browser, emulation or storage state differs from the file's test.use.`
+        );
+      }
+    }
+
+    const importIndex = lines.findIndex((line) => line.includes("from '@playwright/test'"));
+    if (importIndex >= 0) {
+      const names = lines[importIndex].match(/^import \{ (.*) \} from/)?.[1].split(', ') ?? [];
+      lines[importIndex] = renderImport(this.tests, names);
+    }
+
+    const titles = new Set<string>();
+    for (const line of lines) {
+      const match = line.match(/^\s*test(?:\.fixme)?\('((?:\\.|[^'\\])*)'/);
+      if (match) titles.add(match[1].replace(/\\(.)/g, '$1'));
+    }
+
+    const nested: string[] = [];
+    const standalone: string[] = [];
+    // 構造を認識できない describe には追加せず、describe の外に追加する
+    const describe = findDescribe(lines);
+    const describeEnd = describe?.end ?? -1;
+    const hookLines = describe?.hookLines ?? null;
+
+    for (const test of this.tests) {
+      const title = uniqueTitle(test.title, titles);
+      if (describeEnd < 0) {
+        standalone.push(test.render(title, { nested: false, liftedSteps: null }));
+        continue;
+      }
+
+      const liftedSteps = hookLines ? test.matchPrefix(hookLines) : null;
+      if (hookLines && liftedSteps === null) {
+        standalone.push(test.render(title, { nested: false, liftedSteps: null }));
+      } else {
+        nested.push(test.render(title, { nested: true, liftedSteps }));
+      }
+    }
+
+    const result =
+      describeEnd >= 0
+        ? [
+            ...lines.slice(0, describeEnd),
+            ...nested.flatMap((test) => ['', test]),
+            ...lines.slice(describeEnd),
+          ]
+        : [...lines];
+    for (const test of standalone) result.push('', test);
+    if (
+      this.tests.some((test) => test.usesSecrets()) &&
+      !lines.some((line) => line.startsWith('function requireEnv('))
+    ) {
+      result.push('', renderRequireEnvHelper());
+    }
+    return `${result.join('\n')}\n`;
+  }
+}
+
+/**
+ * suite 内の1テスト。ステップはメモリに保持し、SuiteGenerator.write でまとめて書き出す
+ */
+export class SuiteTestGenerator implements IGenerator {
+  readonly title: string;
+  readonly options: GeneratorOptions;
+  private filePath: string;
+  private goal = '';
+  private steps: Array<{ code: string; thought?: string }> = [];
+  private fixmeReason: string | null = null;
+  private secretsUsed = false;
+
+  constructor(filePath: string, title: string, options: GeneratorOptions) {
+    this.filePath = filePath;
+    this.title = title;
+    this.options = options;
+  }
+
+  async init(goal: string): Promise<void> {
+    this.goal = goal;
+  }
+
+  async appendStep(step: CodeStep, thought?: string): Promise<void> {
+    this.steps.push({ code: renderTypeScriptStep(step), thought });
+    if (usesSecret(step)) this.secretsUsed = true;
+  }
+
+  async finish(): Promise<void> {}
+
+  /**
+   * ゴールを達成できなかったテストは test.fixme として出力する (実行はされない)
+   */
+  markAsFixme(reason: string): void {
+    this.fixmeReason = reason;
+  }
+
+  usesSecrets(): boolean {
+    return this.secretsUsed;
+  }
+
+  /**
+   * ステップごとの生成コード (beforeEach に移せるかの比較用)
+   */
+  getStepCodes(): string[] {
+    return this.steps.map((step) => step.code);
+  }
+
+  getSetupLines(): string[] {
+    return [
+      renderTestIdSetup(this.options.testIdAttribute),
+      renderRouteFromHar(this.options.harReplay),
+      renderPageErrorGuard(this.options.failOnPageError),
+    ].filter((line): line is string => Boolean(line));
+  }
+
+  /**
+   * beforeEach の本体 (セットアップ行と先頭 count 個のステップ。ステップの思考はコメントとして残す)
+   */
+  renderPrefix(count: number): string {
+    const lines = [...this.getSetupLines()];
+    for (const step of this.steps.slice(0, count)) {
+      if (step.thought) lines.push(`// ${step.thought.replace(/\n/g, ' ').slice(0, 200)}`);
+      lines.push(...step.code.split('\n'));
+    }
+    return lines.map((line) => `    ${line}`).join('\n');
+  }
+
+  /**
+   * 既存の beforeEach の本体と一致する先頭のステップ数 (一致しない場合は null)
+   * コメント・空行は比較しない
+   */
+  matchPrefix(hookLines: string[]): number | null {
+    const target = comparableLines(hookLines);
+    const setup = this.getSetupLines();
+    for (let count = 0; count <= this.steps.length; count++) {
+      const candidate = comparableLines([
+        ...setup,
+        ...this.steps.slice(0, count).flatMap((step) => step.code.split('\n')),
+      ]);
+      if (candidate.length > target.length) break;
+      if (candidate.join('\n') === target.join('\n')) return count;
+    }
+    return null;
+  }
+
+  render(
+    title: string = this.title,
+    mode: RenderMode = { nested: false, liftedSteps: null }
+  ): string {
+    const body: string[] = [`// Goal: ${this.goal.replace(/\n/g, ' ')}`];
+    if (this.fixmeReason)
+      body.push(`// Goal not achieved: ${this.fixmeReason.replace(/\n/g, ' ')}`);
+    if (!mode.nested) body.push(`test.setTimeout(${SUITE_TIMEOUT_MS});`);
+    if (mode.liftedSteps === null) body.push(...this.getSetupLines());
+
+    const steps = this.steps
+      .slice(mode.liftedSteps ?? 0)
+      .map((step) => renderTestStepBlock(step.code, step.thought));
+    const code = [...body.map((line) => `  ${line}`), ...steps].join('\n');
+
+    const test = `test${this.fixmeReason ? '.fixme' : ''}(${tsString(title)}, async ({ page }) => {
+${code}
+});`;
+    return mode.nested ? indent(test) : test;
+  }
+
+  getOutput(): string {
+    return this.filePath;
+  }
+
+  async getCode(): Promise<string> {
+    return this.secretsUsed ? `${this.render()}\n\n${renderRequireEnvHelper()}` : this.render();
+  }
+}
+
+/**
+ * 全テストで共通する先頭のステップ数 (セットアップ行が同じ2つ以上のテストが対象)
+ * 各テストに少なくとも1ステップは残す
+ */
+function sharedPrefixLength(tests: SuiteTestGenerator[]): number {
+  if (tests.length < 2) return 0;
+  const setup = tests[0].getSetupLines().join('\n');
+  if (tests.some((test) => test.getSetupLines().join('\n') !== setup)) return 0;
+
+  const codes = tests.map((test) => test.getStepCodes());
+  const limit = Math.min(...codes.map((steps) => steps.length)) - 1;
+  let count = 0;
+  while (count < limit && codes.every((steps) => steps[count] === codes[0][count])) count++;
+  return count;
+}
+
+function renderImport(tests: SuiteTestGenerator[], existing: string[]): string {
+  const names = new Set(existing.length > 0 ? existing : ['test', 'expect']);
+  if (tests.some((test) => renderTestIdSetup(test.options.testIdAttribute))) names.add('selectors');
+  if (tests.some((test) => test.options.emulation?.device)) names.add('devices');
+  return `import { ${[...names].join(', ')} } from '@playwright/test';`;
+}
+
+/**
+ * ファイル冒頭の test.use 文 (複数行の場合も1つの文字列として返す)
+ * test.use がなければ null、文の終わりが見つからなければ undefined
+ */
+function extractTestUse(lines: string[]): string | null | undefined {
+  const start = lines.findIndex((line) => line.startsWith('test.use('));
+  if (start < 0) return null;
+  const end = lines.findIndex((line, i) => i >= start && line.endsWith(');'));
+  if (end < 0) return undefined;
+  return lines.slice(start, end + 1).join('\n');
+}
+
+/**
+ * renderSuite が出力する形の test.describe ブロック (終わりの行と beforeEach の本体)
+ * describe 内の行がすべてインデントされている場合のみ、最初の列0の `});` を describe の終わりとみなす
+ * 認識できない構造の場合は null
+ */
+function findDescribe(lines: string[]): { end: number; hookLines: string[] | null } | null {
+  const start = lines.findIndex((line) => /^test\.describe\(.*\(\) => \{$/.test(line));
+  if (start < 0) return null;
+  const end = lines.findIndex((line, i) => i > start && line === '});');
+  if (end < 0) return null;
+  const body = lines.slice(start + 1, end);
+  if (body.some((line) => line !== '' && !/^\s/.test(line))) return null;
+
+  const hookStart = body.indexOf(BEFORE_EACH_LINE);
+  if (hookStart < 0) return { end, hookLines: null };
+  const hookEnd = body.findIndex((line, i) => i > hookStart && line === '  });');
+  if (hookEnd < 0) return null;
+  return { end, hookLines: body.slice(hookStart + 1, hookEnd) };
+}
+
+function comparableLines(lines: string[]): string[] {
+  return lines.map((line) => line.trim()).filter((line) => line && !line.startsWith('//'));
+}
+
+function uniqueTitle(title: string, used: Set<string>): string {
+  let unique = title;
+  for (let n = 2; used.has(unique); n++) unique = `${title} (${n})`;
+  used.add(unique);
+  return unique;
+}
+
+function indent(code: string): string {
+  return code
+    .split('\n')
+    .map((line) => (line ? `  ${line}` : line))
+    .join('\n');
+}
+
+/**
+ * describe のタイトル (ファイル名から拡張子を除いたもの)
+ */
+function suiteTitleOf(filePath: string): string {
+  return path.basename(filePath).replace(/(\.spec)?\.[jt]s$/, '');
+}
@@ -0,0 +1,175 @@
+/**
+ * src/tools/trace-viewer.ts
+ * 記録されたトレースから、単体で閲覧可能なHTMLレポートを生成する
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { TRACE_FILE_NAME, TraceFile } from './tracer';
+
+/**
+ * トレースディレクトリ (または trace.json) を読み込み、HTMLレポートを書き出す
+ * @returns 書き出したHTMLファイルのパス
+ */
+export async function writeTraceReport(tracePath: string, outputPath?: string): Promise<string> {
+  const stat = await fs.stat(tracePath).catch(() => null);
+  if (!stat) throw new Error(`Trace not found: ${tracePath}`);
+
+  const traceFile = stat.isDirectory() ? path.join(tracePath, TRACE_FILE_NAME) : tracePath;
+  const traceDir = path.dirname(traceFile);
+  const trace = JSON.parse(await fs.readFile(traceFile, 'utf-8')) as TraceFile;
+
+  // スクリーンショットはData URIとして埋め込み、HTML単体で閲覧できるようにする
+  const screenshots: Record<number, string> = {};
+  for (const step of trace.steps) {
+    if (!step.screenshot) continue;
+    try {
+      const image = await fs.readFile(path.join(traceDir, step.screenshot));
+      screenshots[step.step] = `data:image/png;base64,${image.toString('base64')}`;
+    } catch {
+      // スクリーンショットが欠けていてもレポート生成は続行する
+    }
+  }
+
+  const output = outputPath || path.join(traceDir, 'report.html');
+  await fs.writeFile(output, renderTraceHtml(trace, screenshots), 'utf-8');
+  return output;
+}
+
+/**
+ * トレースをHTML文字列に変換する
+ */
+export function renderTraceHtml(
+  trace: TraceFile,
+  screenshots: Record<number, string> = {}
+): string {
+  // </script> による埋め込みの破壊を防ぐため '<' をエスケープ
+  const data = JSON.stringify({ trace, screenshots }).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Flash-Loop Trace: ${escapeHtml(trace.goal)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, 'Segoe UI', sans-serif; color: #1f2328; display: flex; height: 100vh; }
+  aside { width: 300px; border-right: 1px solid #d0d7de; overflow-y: auto; background: #f6f8fa; }
+  aside header { padding: 12px; border-bottom: 1px solid #d0d7de; }
+  aside h1 { font-size: 15px; margin: 0 0 6px; }
+  .meta { font-size: 12px; color: #57606a; }
+  .step-item { padding: 8px 12px; cursor: pointer; border-bottom: 1px solid #eaeef2; font-size: 13px; }
+  .step-item:hover { background: #eaeef2; }
+  .step-item.active { background: #ddf4ff; }
+  .step-item .action { font-family: monospace; }
+  .badge { display: inline-block; padding: 1px 6px; border-radius: 10px; font-size: 11px; color: #fff; }
+  .ok { background: #1a7f37; } .ng { background: #cf222e; } .info { background: #8250df; }
+  main { flex: 1; overflow-y: auto; padding: 16px 24px; }
+  h2 { font-size: 18px; margin-top: 0; } h3 { font-size: 14px; margin: 18px 0 6px; }
+  pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 10px; overflow-x: auto; font-size: 12px; white-space: pre-wrap; word-break: break-word; }
+  img { max-width: 100%; border: 1px solid #d0d7de; border-radius: 6px; }
+  table { border-collapse: collapse; font-size: 12px; } td, th { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; }
+  .hint { font-size: 12px; color: #57606a; }
+</style>
+</head>
+<body>
+<aside>
+  <header>
+    <h1 id="goal"></h1>
+    <div class="meta" id="summary"></div>
+    <div class="hint">Use ↑ / ↓ to step through the run.</div>
+  </header>
+  <div id="steps"></div>
+</aside>
+<main id="detail"></main>
+<script>
+const { trace, screenshots } = ${data};
+let current = 0;
+
+function esc(value) {
+  return String(value ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+}
+
+function stepOk(step) {
+  return !step.error && step.actions.every((a) => a.result.success);
+}
+
+function renderList() {
+  document.getElementById('goal').textContent = trace.goal;
+  document.getElementById('summary').textContent =
+    trace.status + ' · ' + trace.steps.length + ' step(s) · ' + trace.startedAt;
+  document.getElementById('steps').innerHTML = trace.steps.map((step, i) => {
+    const plan = step.plan;
+    const label = plan ? esc(plan.actionType) + (plan.targetId ? ' → ' + esc(plan.targetId) : '') : '(no plan)';
+    const badge = plan && plan.isFinished
+      ? '<span class="badge info">finish</span>'
+      : stepOk(step) ? '<span class="badge ok">ok</span>' : '<span class="badge ng">error</span>';
+    return '<div class="step-item' + (i === current ? ' active' : '') + '" data-index="' + i + '">' +
+      '<b>Step ' + step.step + '</b> ' + badge + '<br><span class="action">' + label + '</span></div>';
+  }).join('');
+  document.querySelectorAll('.step-item').forEach((el) => {
+    el.addEventListener('click', () => select(Number(el.dataset.index)));
+  });
+}
+
+function renderDetail() {
+  const step = trace.steps[current];
+  const detail = document.getElementById('detail');
+  if (!step) { detail.innerHTML = '<p>No steps recorded.</p>'; return; }
+
+  const t = step.timings || {};
+  let html = '<h2>Step ' + step.step + ': ' + esc(step.title) + '</h2>';
+  html += '<div class="meta">' + esc(step.url) + '<br>' + esc(step.startedAt) + '</div>';
+  html += '<h3>Timings</h3><table><tr><th>Observe</th><th>Think</th><th>Total</th></tr><tr>' +
+    [t.observeMs, t.thinkMs, t.totalMs].map((v) => '<td>' + (v == null ? '-' : v + ' ms') + '</td>').join('') + '</tr></table>';
+  if (step.error) html += '<h3>Error</h3><pre>' + esc(step.error) + '</pre>';
+  if (step.plan) {
+    html += '<h3>Thought</h3><pre>' + esc(step.plan.thought) + '</pre>';
+    html += '<h3>Action Plan</h3><pre>' + esc(JSON.stringify(step.plan, null, 2)) + '</pre>';
+  }
+  step.actions.forEach((a, i) => {
+    html += '<h3>Execution ' + (i + 1) + ': ' + esc(a.plan.actionType) + ' ' +
+      (a.result.success ? '<span class="badge ok">success</span>' : '<span class="badge ng">failed</span>') +
+      ' <span class="meta">' + a.durationMs + ' ms · ' + esc(a.url) + '</span></h3>';
+    if (a.code) html += '<pre>' + esc(a.code) + '</pre>';
+    if (a.result.error) html += '<pre>' + esc(a.result.error) + '</pre>';
+    if (a.network && a.network.length) {
+      html += '<pre>' + a.network.map((n) => esc(n.method + ' ' + n.url + ' -> ' + (n.failure ? 'failed (' + n.failure + ')' : n.status))).join('\n') + '</pre>';
+    }
+  });
+  if (step.pageErrors && step.pageErrors.length) {
+    html += '<h3>Page Errors</h3><pre>' + step.pageErrors.map((e) => esc('[' + e.type + '] ' + e.message)).join('\n') + '</pre>';
+  }
+  if (step.batchInterruption) html += '<h3>Batch Interrupted</h3><pre>' + esc(step.batchInterruption) + '</pre>';
+  if (screenshots[step.step]) html += '<h3>Screenshot</h3><img src="' + screenshots[step.step] + '">';
+  if (step.stateText) html += '<h3>State sent to the brain</h3><pre>' + esc(step.stateText) + '</pre>';
+  detail.innerHTML = html;
+}
+
+function select(index) {
+  if (index < 0 || index >= trace.steps.length) return;
+  current = index;
+  renderList();
+  renderDetail();
+  document.querySelector('.step-item.active')?.scrollIntoView({ block: 'nearest' });
+}
+
+document.addEventListener('keydown', (e) => {
+  if (e.key === 'ArrowDown') { select(current + 1); e.preventDefault(); }
+  if (e.key === 'ArrowUp') { select(current - 1); e.preventDefault(); }
+});
+
+renderList();
+renderDetail();
+</script>
+</body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,129 @@
+/**
+ * src/tools/tracer.ts
+ * ステップごとの実行トレース (観測内容・プラン・実行結果・タイミング) を記録するツール
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { ActionPlan, ExecutionResult, NetworkEntry, PageErrorEntry } from '../types';
+
+export const TRACE_FILE_NAME = 'trace.json';
+const TRACE_VERSION = 1;
+
+export type TraceRunStatus = 'running' | 'finished' | 'stopped' | 'max_steps' | 'error';
+
+/**
+ * 実行された1アクション分の記録 (バッチの場合は1ステップに複数)
+ */
+export interface TraceAction {
+  plan: ActionPlan;
+  result: ExecutionResult;
+  code?: string; // result.step を TypeScript に描画したもの (閲覧用)
+  url: string; // 実行後のアクティブタブURL
+  durationMs: number;
+  network?: NetworkEntry[]; // 実行中に発生した XHR / fetch 通信
+}
+
+/**
+ * 1ステップ (Observe -> Think -> Execute) 分の記録
+ */
+export interface TraceStep {
+  step: number;
+  startedAt: string;
+  url: string; // 観測時のアクティブタブURL
+  title: string;
+  stateText?: string; // Brainに渡した状態テキスト
+  plan?: ActionPlan;
+  actions: TraceAction[];
+  batchInterruption?: string;
+  pageErrors?: PageErrorEntry[]; // このステップ中に発生したエラー
+  error?: string;
+  screenshot?: string; // トレースディレクトリからの相対パス
+  timings: {
+    observeMs?: number;
+    thinkMs?: number;
+    totalMs?: number;
+  };
+}
+
+export interface TraceFile {
+  version: number;
+  goal: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: TraceRunStatus;
+  steps: TraceStep[];
+}
+
+export interface TraceRecorderOptions {
+  dir: string; // トレースのルートディレクトリ (実行ごとにサブディレクトリを作成)
+  screenshots?: boolean;
+}
+
+export class TraceRecorder {
+  private runDir: string;
+  private screenshots: boolean;
+  private trace: TraceFile | null = null;
+
+  constructor(options: TraceRecorderOptions) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    this.runDir = path.resolve(options.dir, `run_${timestamp}`);
+    this.screenshots = options.screenshots ?? false;
+  }
+
+  isScreenshotEnabled(): boolean {
+    return this.screenshots;
+  }
+
+  async init(goal: string): Promise<void> {
+    this.trace = {
+      version: TRACE_VERSION,
+      goal,
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      steps: [],
+    };
+    try {
+      await fs.mkdir(this.runDir, { recursive: true });
+    } catch (error) {
+      throw new Error(`Failed to create trace directory: ${error}`, { cause: error });
+    }
+    await this.save();
+  }
+
+  /**
+   * スクリーンショットを保存し、トレースディレクトリからの相対パスを返す
+   */
+  async saveScreenshot(step: number, image: Buffer): Promise<string> {
+    const fileName = `step-${String(step).padStart(3, '0')}.png`;
+    await fs.writeFile(path.join(this.runDir, fileName), image);
+    return fileName;
+  }
+
+  /**
+   * ステップを記録する (途中で異常終了しても残るよう、毎回ファイル全体を書き出す)
+   */
+  async recordStep(step: TraceStep): Promise<void> {
+    if (!this.trace) throw new Error('TraceRecorder is not initialized.');
+    this.trace.steps.push(step);
+    await this.save();
+  }
+
+  async finish(status: TraceRunStatus): Promise<void> {
+    if (!this.trace) return;
+    this.trace.status = status;
+    this.trace.finishedAt = new Date().toISOString();
+    await this.save();
+  }
+
+  getOutput(): string {
+    return this.runDir;
+  }
+
+  private async save(): Promise<void> {
+    await fs.writeFile(
+      path.join(this.runDir, TRACE_FILE_NAME),
+      JSON.stringify(this.trace, null, 2),
+      'utf-8'
+    );
+  }
+}
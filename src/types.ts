@@ -3,8 +3,155 @@
  * アプリケーション全体で使用する型定義
  */
 import { z } from 'zod';
-import { ElementHandle, Frame, Page } from 'playwright';
+import { Browser, ElementHandle, Frame, Page } from 'playwright';
 import { ILogger } from './tools/logger';
+import { GeneratorOptions, IGenerator } from './tools/generator';
+import { FlashLoopHooks } from './core/hooks';
+
+// --- LLM Provider Options ---
+
+/**
+ * Brainが利用可能なLLMプロバイダー
+ * - openai-compatible: vLLM / LM Studio / ローカルのスタブサーバーなど OpenAI 互換 API
+ * - ollama: Ollama の OpenAI 互換エンドポイント
+ */
+export const LLMProviderEnum = z.enum(['cerebras', 'openai', 'openai-compatible', 'ollama']);
+
+export type LLMProviderName = z.infer<typeof LLMProviderEnum>;
+
+/**
+ * LLM接続設定 (未指定の項目は環境変数・プロバイダーのデフォルト値で補完される)
+ */
+export interface LLMOptions {
+  provider?: LLMProviderName;
+  model?: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+// --- Cassette (Record / Replay) Options ---
+
+/**
+ * Brainの意思決定を記録・再生するカセット設定
+ * - record: 通常どおりLLMを呼び出し、入出力をカセットファイルに保存する
+ * - replay: LLMを呼び出さず、カセットに記録された ActionPlan を順に返す
+ */
+export interface CassetteOptions {
+  mode: 'record' | 'replay';
+  path: string;
+  strict?: boolean; // replay時、観測状態がずれていたらエラーで停止する
+}
+
+// --- Selector Options ---
+
+/**
+ * ロケータ候補の種類 (XPath は常に最終手段として末尾で試行される)
+ */
+export const SelectorStrategyEnum = z.enum([
+  'testId',
+  'role',
+  'label',
+  'placeholder',
+  'altText',
+  'title',
+  'text',
+]);
+
+export type SelectorStrategy = z.infer<typeof SelectorStrategyEnum>;
+
+export interface SelectorOptions {
+  testIdAttribute?: string; // 例: 'data-qa', 'data-test' (デフォルト: data-testid)
+  priority?: SelectorStrategy[]; // 候補の優先順 (未指定の種類は試行しない)
+}
+
+// --- Observation Options ---
+
+/**
+ * 観測モード
+ * - dom: 独自のDOM走査 (スタイル・cursor などのヒューリスティック)
+ * - aria: Playwright の ARIA スナップショット (ロール・名前・状態・階層)
+ */
+export const ObservationModeEnum = z.enum(['dom', 'aria']);
+
+export type ObservationMode = z.infer<typeof ObservationModeEnum>;
+
+// --- Secret Options ---
+
+/**
+ * `{{secret:NAME}}` プレースホルダの解決元
+ * 優先順: values > 環境変数 > file
+ */
+export interface SecretOptions {
+  file?: string; // .env 形式 または JSON
+  values?: Record<string, string>;
+}
+
+// --- Browser Options ---
+
+/**
+ * 使用するブラウザエンジン (CLIモード)
+ */
+export const BrowserNameEnum = z.enum(['chromium', 'firefox', 'webkit']);
+
+export type BrowserName = z.infer<typeof BrowserNameEnum>;
+
+export const ColorSchemeEnum = z.enum(['light', 'dark', 'no-preference']);
+
+export type ColorScheme = z.infer<typeof ColorSchemeEnum>;
+
+/**
+ * ブラウザコンテキストのエミュレーション設定 (生成 spec の test.use にも出力する)
+ */
+export interface EmulationOptions {
+  device?: string; // Playwright のデバイス名 (例: 'iPhone 13')。他の項目はデバイスの設定を上書きする
+  viewport?: { width: number; height: number };
+  locale?: string; // 例: 'ja-JP'
+  timezoneId?: string; // 例: 'Asia/Tokyo'
+  geolocation?: { latitude: number; longitude: number };
+  colorScheme?: ColorScheme;
+}
+
+// --- Storage State Options ---
+
+/**
+ * 認証状態 (Cookie / localStorage) の再利用と保存
+ */
+export interface StorageStateOptions {
+  load?: string; // 実行開始時に読み込む storageState ファイル。生成 spec でも test.use で利用する
+  save?: string; // 実行終了時に storageState を書き出すファイル (ログイン用ゴールなど)
+}
+
+// --- Network Options ---
+
+/**
+ * ネットワーク通信の HAR 記録
+ */
+export interface HarOptions {
+  path: string;
+  urlFilter?: string; // 記録・モックする URL の glob (例: '**/api/**')。未指定時はすべて
+  mock?: boolean; // 生成 spec で page.routeFromHAR を使い、記録したレスポンスで再生する
+}
+
+/**
+ * 観測された XHR / fetch 通信
+ */
+export interface NetworkEntry {
+  seq: number; // ContextManager 内の通し番号
+  method: string;
+  url: string;
+  status?: number;
+  failure?: string; // 失敗した場合のエラー内容
+}
+
+/**
+ * タブで発生したエラー (console.error / 未捕捉の例外 / 失敗したリクエスト)
+ */
+export interface PageErrorEntry {
+  seq: number; // ContextManager 内の通し番号
+  type: 'console' | 'pageerror' | 'requestfailed';
+  message: string;
+  pageUrl: string; // 発生したタブのURL
+}
 
 // --- FlashLoop Options ---
 
@@ -12,7 +159,33 @@ export interface FlashLoopOptions {
   startUrl?: string;
   headless?: boolean;
   maxSteps?: number;
+  // ブラウザ・エミュレーション (CLIモードのみ。Libraryモードでは呼び出し元のコンテキストの設定を使う)
+  browser?: BrowserName; // 未指定時はデバイスの既定エンジン、無ければ chromium
+  device?: string; // Playwright のデバイス名 (例: 'iPhone 13')
   viewport?: { width: number; height: number };
+  locale?: string;
+  timezoneId?: string;
+  geolocation?: { latitude: number; longitude: number }; // 指定時は geolocation の権限も付与する
+  colorScheme?: ColorScheme;
+  llm?: LLMOptions; // 使用するLLMプロバイダー・モデル
+  codegenTarget?: CodegenTarget; // CLIモードの出力形式 (デフォルト: typescript)
+  outputPath?: string; // CLIモードの出力先 (未指定時はカレントディレクトリのタイムスタンプ付きファイル)
+  generatorFactory?: (options: GeneratorOptions) => IGenerator; // CLIモードのジェネレータを差し替える (結合 suite など)
+  sharedBrowser?: Browser; // 起動済みのブラウザ (CLIモード)。新しいコンテキストで実行し、ブラウザ自体は閉じない
+  selectors?: SelectorOptions; // テストID属性・ロケータ候補の優先順
+  observationMode?: ObservationMode; // 観測モード (デフォルト: dom)
+  vision?: boolean; // Set-of-Marks スクリーンショットをマルチモーダルモデルに渡す
+  incrementalObservation?: boolean; // 2回目以降の観測を前回との差分で送る
+  stateTokenBudget?: number; // stateText の要素一覧のトークン予算 (未指定時は無制限)
+  cassette?: CassetteOptions; // Brainの記録・再生
+  secrets?: SecretOptions; // {{secret:NAME}} の解決元
+  trace?: { dir: string; screenshots?: boolean }; // ステップごとの実行トレース
+  storageState?: StorageStateOptions; // 認証状態の読み込み・保存
+  har?: HarOptions; // ネットワーク通信の HAR 記録
+  failOnPageError?: boolean; // 生成 spec で、未捕捉のページエラーが発生したらテストを失敗させる
+  hooks?: FlashLoopHooks | FlashLoopHooks[]; // ライフサイクルフック (プラグイン)
+  policy?: SafetyPolicyOptions; // 実行前に検査する安全ポリシー
+  confirmAction?: (message: string) => Promise<boolean>; // ポリシーの confirm ルールの確認手段
   // ライブラリ利用時のオプション
   page?: Page; // 既存のPageインスタンス
   logger?: ILogger; // 外部から注入するロガー
@@ -55,27 +228,29 @@ export const ActionTypeEnum = z.enum([
   // --- Wait & Dialog ---
   'wait_for_element', // [New] 特定の要素が出現するのを待つ
   'handle_dialog', // [New] アラートや確認ダイアログの処理
+  'wait_for_response', // API レスポンスを待つ (targetId 指定時はそのクリックをトリガーにする)
 
   // --- Assertion (Verification) ---
   'assert_visible',
   'assert_text',
   'assert_value',
   'assert_url',
+  'assert_response', // API レスポンスのステータス・ボディを検証する
+
+  // --- Data ---
+  'extract', // 対象要素 (省略時はページ全体) のテキストを読み取り、構造化データとして返す
 
   // --- Meta ---
+  'more_elements', // 折りたたまれた要素の次のページを表示する (コードは生成しない)
   'finish',
 ]);
 
 export type ActionType = z.infer<typeof ActionTypeEnum>;
 
 /**
- * LLMが生成するアクションプラン
+ * 1回分のアクション指定 (ActionPlan とバッチ内の各アクションで共通)
  */
-export const ActionSchema = z.object({
-  thought: z
-    .string()
-    .describe('現在の状況分析、なぜこのアクションを選択したかの思考プロセス。簡潔に記述すること。'),
-
+export const ActionStepSchema = z.object({
   actionType: ActionTypeEnum.describe('実行するPlaywrightアクションの種類'),
 
   targetId: z
@@ -102,11 +277,142 @@ export const ActionSchema = z.object({
         '- handle_dialog: "accept" または "dismiss"'
     ),
 
+  response: z
+    .object({
+      urlIncludes: z.string().describe('レスポンスのURLに含まれる文字列 (例: "/api/orders")'),
+      method: z.string().optional().describe('HTTPメソッド (例: "POST")'),
+      status: z
+        .number()
+        .optional()
+        .describe('assert_response: 期待するステータスコード (省略時は 2xx であること)'),
+      bodyIncludes: z
+        .string()
+        .optional()
+        .describe('assert_response: レスポンスボディに含まれるべき文字列'),
+    })
+    .optional()
+    .describe(
+      'wait_for_response / assert_response の対象レスポンス。targetId を指定すると、その要素のクリックをトリガーとして待機する'
+    ),
+});
+
+export type ResponseExpectation = NonNullable<z.infer<typeof ActionStepSchema>['response']>;
+
+/**
+ * バッチ内で後続実行されるアクション
+ */
+export const FollowUpActionSchema = ActionStepSchema.extend({
+  thought: z
+    .string()
+    .optional()
+    .describe('このアクションの目的 (省略時はプラン全体のthoughtを使用)'),
+});
+
+export type FollowUpAction = z.infer<typeof FollowUpActionSchema>;
+
+/**
+ * LLMが生成するアクションプラン
+ * メインのアクションに続けて、同一ページ上で連続実行するアクションをバッチとして指定できる
+ */
+export const ActionSchema = z.object({
+  thought: z
+    .string()
+    .describe('現在の状況分析、なぜこのアクションを選択したかの思考プロセス。簡潔に記述すること。'),
+
+  ...ActionStepSchema.shape,
+
+  followUpActions: z
+    .array(FollowUpActionSchema)
+    .optional()
+    .describe(
+      'メインのアクションの後に順番に実行するアクション (例: 複数フィールドへの入力後に送信ボタンをクリック)。\n' +
+        '現在の状態に存在するVirtual IDのみ使用すること。ページ遷移・ダイアログ出現・要素の消失が起きた時点で残りはスキップされる。'
+    ),
+
   isFinished: z.boolean().describe('ゴールを達成し、タスクを終了すべきか'),
 });
 
 export type ActionPlan = z.infer<typeof ActionSchema>;
 
+// --- Safety Policy ---
+
+/**
+ * 要素の説明・ロールに対するルール
+ * - confirm: 実行前に確認を求める (確認手段が無い場合はブロック)
+ * - block: 常にブロックする
+ */
+export const PolicyRuleSchema = z.object({
+  keywords: z.array(z.string()).optional(), // 要素の説明に含まれる語 (大文字小文字を区別しない)
+  roles: z.array(z.string()).optional(), // 例: 'button', 'link'
+  actionTypes: z.array(ActionTypeEnum).optional(), // 対象のアクション (省略時はすべて)
+  effect: z.enum(['confirm', 'block']),
+  reason: z.string().optional(),
+});
+
+/**
+ * 実行ごとの安全ポリシー (--policy で JSON ファイルから読み込む)
+ */
+export const SafetyPolicySchema = z.object({
+  allowedUrls: z.array(z.string()).optional(), // navigate 先・遷移後のページの URL パターン (`*` はワイルドカード)
+  disallowedActions: z.array(ActionTypeEnum).optional(),
+  allowedUploadPaths: z.array(z.string()).optional(), // upload を許可するファイル・ディレクトリ
+  rules: z.array(PolicyRuleSchema).optional(),
+});
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type SafetyPolicyOptions = z.infer<typeof SafetyPolicySchema>;
+
+// --- Code Generation ---
+
+/**
+ * コード生成の出力形式
+ * - typescript: 単一テストの Playwright Test spec
+ * - pom: Page Object クラス + spec
+ * - python: pytest-playwright のテスト
+ * - json: ツール連携用の言語非依存ステップ
+ */
+export const CodegenTargetEnum = z.enum(['typescript', 'pom', 'python', 'json']);
+
+export type CodegenTarget = z.infer<typeof CodegenTargetEnum>;
+
+/**
+ * 生成 spec のファイル全体に適用する実行環境 (TypeScript では test.use、Python ではフィクスチャ)
+ */
+export interface TestUseOptions {
+  browser?: BrowserName;
+  emulation?: EmulationOptions;
+  storageState?: string;
+}
+
+/**
+ * ロケータメソッドの引数 (文字列・数値・オプションオブジェクト)
+ */
+export type LocatorArg = string | number | Record<string, string | number | boolean>;
+
+/**
+ * ロケータチェーンの1呼び出し (例: getByRole('button', { name: 'OK' }))
+ * page を起点に frameLocator / getBy* などを順に適用する
+ */
+export interface LocatorCall {
+  method: string;
+  args: LocatorArg[];
+}
+
+/**
+ * 言語非依存のステップ記述
+ * Executor が検証済みのロケータと共に生成し、各ジェネレータが対象言語に描画する
+ */
+export interface CodeStep {
+  actionType: ActionType;
+  locator?: LocatorCall[];
+  targetLocator?: LocatorCall[]; // drag_and_drop のドロップ先
+  value?: string;
+  files?: string[]; // upload 対象ファイル
+  selectBy?: 'label' | 'value'; // select_option で一致した方式
+  response?: ResponseExpectation; // wait_for_response / assert_response の対象
+  url?: string; // 実行時のページURL (Page Object の分割に使用)
+}
+
 // --- DOM / State Definitions ---
 
 /**
@@ -123,6 +429,17 @@ export interface SelectorCandidates {
   title?: string;
 }
 
+/**
+ * 要素を絞り込むための祖先コンテナ (テーブル行・カード等) の情報
+ * 単独のセレクタが一意にならない場合に、スコープ付きロケータの起点として使う
+ */
+export interface ScopeCandidate {
+  testId?: string;
+  role?: string;
+  name?: string; // aria-label 等のアクセシブルネーム
+  hasText?: string; // 同種のコンテナと区別するためのテキスト
+}
+
 /**
  * システム内部で保持する要素コンテナ
  * Semantic ID導入に伴い、不変なIDと最新のHandleを管理する
@@ -140,12 +457,14 @@ export interface ElementContainer {
 
   // セレクタ候補
   selectors: SelectorCandidates;
+  scopes: ScopeCandidate[]; // 近い祖先から順
 
   // LLM提示用
   description: string;
   tagName: string;
   isScrollable: boolean;
   isInViewport: boolean; // 画面外判定用
+  boundingBox?: { x: number; y: number; width: number; height: number }; // 観測時の位置 (フレーム基準)
 }
 
 /**
@@ -154,6 +473,7 @@ export interface ElementContainer {
 export interface ObservationResult {
   stateText: string; // LLMに渡すテキスト表現
   elementMap: Map<string, ElementContainer>; // ID -> コンテナ
+  isIncremental?: boolean; // stateText が前回からの差分のみの場合 true
 }
 
 /**
@@ -161,8 +481,105 @@ export interface ObservationResult {
  */
 export interface ExecutionResult {
   success: boolean;
-  generatedCode?: string; // 検証済みコード
+  step?: CodeStep; // 検証済みステップ (各ジェネレータがコードに変換する)
   error?: string;
   retryable: boolean;
   userGuidance?: string; // AIへのフィードバック（エラー翻訳）
+  extractedText?: string; // extract アクションで読み取ったテキスト
+}
+
+/**
+ * FlashLoop.start の実行ごとのオプション
+ */
+export interface StartOptions {
+  extractSchema?: z.ZodType; // extract アクションの結果を検証・構造化するスキーマ
 }
+
+/**
+ * 実行の最終状態
+ * - success: Brain がゴール達成と判断した
+ * - max_steps: ゴール未達のまま最大ステップ数に達した
+ * - stopped: リトライ不能なエラーで停止した
+ * - error: ステップ中の例外 (Brain・ジェネレータの失敗など) で中断した
+ */
+export type RunStatus = 'success' | 'max_steps' | 'stopped' | 'error';
+
+/**
+ * 1ステップ分の実行記録
+ */
+export interface RunStepRecord {
+  step: number;
+  url: string; // 観測時のアクティブタブURL
+  thought?: string;
+  pageErrors?: PageErrorEntry[]; // このステップ中に発生した console / ページエラー
+  actions: Array<{
+    actionType: ActionType;
+    targetId?: string;
+    success: boolean;
+    error?: string;
+    code?: string; // 生成された TypeScript コード
+  }>;
+}
+
+/**
+ * FlashLoop.start の実行結果
+ */
+export interface RunResult {
+  status: RunStatus;
+  reason: string;
+  stepCount: number;
+  steps: RunStepRecord[];
+  code: string; // 生成コード (ファイル出力の場合はその内容)
+  outputPath?: string; // CLIモードの出力ファイル
+  extractedData?: unknown;
+  finalUrl: string;
+}
+
+// --- Batch ---
+
+/**
+ * バッチ実行でゴールごとに指定できる設定 (defaults で全ゴールの既定値を指定できる)
+ */
+export const BatchGoalOptionsSchema = z.object({
+  url: z.string().optional(), // 開始URL
+  maxSteps: z.number().int().positive().optional(),
+  observe: ObservationModeEnum.optional(),
+  vision: z.boolean().optional(),
+  incremental: z.boolean().optional(),
+  tokenBudget: z.number().int().positive().optional(),
+  browser: BrowserNameEnum.optional(),
+  device: z.string().optional(),
+  viewport: z
+    .object({ width: z.number().int().positive(), height: z.number().int().positive() })
+    .optional(),
+  locale: z.string().optional(),
+  timezoneId: z.string().optional(),
+  geolocation: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    })
+    .optional(),
+  colorScheme: ColorSchemeEnum.optional(),
+  storageState: z.string().optional(), // 読み込む storageState ファイル
+  saveStorageState: z.string().optional(), // ゴール達成時に storageState を保存するファイル
+  failOnPageError: z.boolean().optional(),
+});
+
+export const BatchGoalSchema = BatchGoalOptionsSchema.extend({
+  name: z.string().optional(), // テスト名・出力ファイル名 (未指定時はゴールから作る)
+  goal: z.string().min(1),
+});
+
+/**
+ * ゴール定義ファイル (YAML / JSON)。goals には文字列 (ゴールのみ) も書ける
+ */
+export const BatchFileSchema = z.object({
+  concurrency: z.number().int().positive().optional(),
+  defaults: BatchGoalOptionsSchema.optional(),
+  goals: z.array(z.union([z.string().min(1), BatchGoalSchema])).min(1),
+});
+
+export type BatchGoalOptions = z.infer<typeof BatchGoalOptionsSchema>;
+export type BatchGoal = z.infer<typeof BatchGoalSchema>;
+export type BatchFile = z.infer<typeof BatchFileSchema>;
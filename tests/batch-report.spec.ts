@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import { BatchSummary } from '../src/core/batch';
+import { formatBatchSummary, renderJUnitReport } from '../src/tools/batch-report';
+
+const summary: BatchSummary = {
+  file: 'goals/checkout.yaml',
+  startedAt: '2026-01-01T00:00:00.000Z',
+  durationMs: 4500,
+  total: 3,
+  passed: 1,
+  failed: 1,
+  errors: 1,
+  results: [
+    {
+      name: 'search',
+      goal: 'Search for "keyboard" & open <first>',
+      status: 'success',
+      reason: 'Done',
+      stepCount: 3,
+      durationMs: 1500,
+      outputPath: 'flash-loop-batch/search.spec.ts',
+      finalUrl: 'https://shop.example.com/item/1',
+    },
+    {
+      name: 'cart',
+      goal: 'Add to cart',
+      status: 'max_steps',
+      reason: 'Reached the step limit (15)',
+      stepCount: 15,
+      durationMs: 2000,
+    },
+    {
+      name: 'billing',
+      goal: 'Open billing',
+      status: 'error',
+      reason: "Unknown device: 'iPhone 99'\u0000\u001b[31m\ttab",
+      stepCount: 0,
+      durationMs: 1000,
+    },
+  ],
+};
+
+test.describe('renderJUnitReport', () => {
+  const xml = renderJUnitReport(summary);
+
+  test('writes suite counts and one testcase per goal', () => {
+    expect(xml).toContain(
+      '<testsuite name="checkout.yaml" tests="3" failures="1" errors="1" time="4.500" timestamp="2026-01-01T00:00:00.000Z">'
+    );
+    expect(xml.match(/<testcase /g)).toHaveLength(3);
+  });
+
+  test('reports unmet goals as failures and exceptions as errors', () => {
+    expect(xml).toContain(
+      '<failure message="Reached the step limit (15)" type="max_steps">Reached the step limit (15)</failure>'
+    );
+    expect(xml).toContain('<error message="Unknown device: &apos;iPhone 99&apos;[31m\ttab"');
+  });
+
+  test('escapes markup and drops characters that are invalid in XML', () => {
+    expect(xml).toContain('Goal: Search for &quot;keyboard&quot; &amp; open &lt;first&gt;');
+    expect(xml).not.toContain('\u0000');
+    expect(xml).not.toContain('\u001b');
+  });
+});
+
+test('formatBatchSummary lists each goal and the totals', () => {
+  expect(formatBatchSummary(summary)).toEqual([
+    'PASS  search     3 step(s)  1.500s',
+    'FAIL  cart      15 step(s)  2.000s max_steps: Reached the step limit (15)',
+    "ERR   billing    0 step(s)  1.000s error: Unknown device: 'iPhone 99'\u0000\u001b[31m\ttab",
+    '1 passed, 1 failed, 1 error(s) of 3 goal(s) in 4.500s',
+  ]);
+});
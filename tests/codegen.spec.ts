@@ -0,0 +1,207 @@
+import { test, expect } from '@playwright/test';
+import {
+  renderRequireEnvHelper,
+  renderTestStepBlock,
+  renderTestUse,
+  renderTypeScriptLocator,
+  renderTypeScriptStep,
+  tsString,
+} from '../src/tools/codegen/typescript';
+import {
+  renderPythonContextArgs,
+  renderPythonLocator,
+  renderPythonRequireEnvHelper,
+  renderPythonStep,
+} from '../src/tools/codegen/python';
+import { MemoryGenerator, createGenerator } from '../src/tools/generator';
+import { CodegenTarget, CodeStep, LocatorCall } from '../src/types';
+
+const emailInput: LocatorCall[] = [{ method: 'getByLabel', args: ['Email', { exact: true }] }];
+const saveButton: LocatorCall[] = [{ method: 'getByRole', args: ['button', { name: 'Save' }] }];
+
+const assertSave: CodeStep = {
+  actionType: 'assert_response',
+  locator: saveButton,
+  response: { urlIncludes: '/api/save', method: 'post', status: 201, bodyIncludes: 'ok' },
+};
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+  ...args: string[]
+) => unknown;
+
+test.describe('TypeScript codegen', () => {
+  test('escapes string literals', () => {
+    expect(tsString("it's\\a\nline")).toBe("'it\\'s\\\\a\\nline'");
+  });
+
+  test('renders locator chains', () => {
+    const calls: LocatorCall[] = [
+      { method: 'getByRole', args: ['row', { name: 'Alice' }] },
+      { method: 'getByRole', args: ['button', { name: 'Edit', exact: true }] },
+      { method: 'nth', args: [1] },
+    ];
+    expect(renderTypeScriptLocator(calls)).toBe(
+      "page.getByRole('row', { name: 'Alice' }).getByRole('button', { name: 'Edit', exact: true }).nth(1)"
+    );
+  });
+
+  test('renders a secret as a requireEnv call', () => {
+    const code = renderTypeScriptStep({
+      actionType: 'fill',
+      locator: emailInput,
+      value: '{{secret:PASSWORD}}',
+    });
+    expect(code).toBe(
+      "await page.getByLabel('Email', { exact: true }).fill(requireEnv('PASSWORD'));"
+    );
+  });
+
+  test('renders a secret inside text as a template with requireEnv', () => {
+    const code = renderTypeScriptStep({
+      actionType: 'fill',
+      locator: emailInput,
+      value: '{{secret:USER}}@example.com `$x`',
+    });
+    expect(code).toContain("fill(`${requireEnv('USER')}@example.com \\`\\$x\\``)");
+  });
+
+  test('requireEnv fails clearly when the variable is missing', () => {
+    const requireEnv = new Function(
+      `${renderRequireEnvHelper().replace('(name: string): string', '(name)')}\nreturn requireEnv;`
+    )() as (name: string) => string;
+
+    process.env.FLASH_LOOP_TEST_SECRET = 's3cret';
+    expect(requireEnv('FLASH_LOOP_TEST_SECRET')).toBe('s3cret');
+    expect(() => requireEnv('FLASH_LOOP_TEST_MISSING')).toThrow(
+      'Missing environment variable: FLASH_LOOP_TEST_MISSING'
+    );
+  });
+
+  test('renders a response assertion triggered by a click in its own block', () => {
+    expect(renderTypeScriptStep(assertSave)).toBe(`{
+  const [response] = await Promise.all([
+    page.waitForResponse((response) => response.url().includes('/api/save') && response.request().method() === 'POST'),
+    page.getByRole('button', { name: 'Save' }).click(),
+  ]);
+  expect(response.status()).toBe(201);
+  expect(await response.text()).toContain('ok');
+}`);
+  });
+
+  test('renders response waits without declaring variables', () => {
+    expect(
+      renderTypeScriptStep({
+        actionType: 'wait_for_response',
+        locator: saveButton,
+        response: { urlIncludes: '/api/save' },
+      })
+    ).toBe(`await Promise.all([
+  page.waitForResponse((response) => response.url().includes('/api/save')),
+  page.getByRole('button', { name: 'Save' }).click(),
+]);`);
+    expect(
+      renderTypeScriptStep({ actionType: 'assert_response', response: { urlIncludes: '/api' } })
+    ).toBe(`{
+  const response = await page.waitForResponse((response) => response.url().includes('/api'));
+  expect(response.ok()).toBeTruthy();
+}`);
+  });
+
+  test('compiles two response assertions in one flat test body', async () => {
+    const generator = new MemoryGenerator();
+    await generator.init('Save twice');
+    await generator.appendStep(assertSave);
+    await generator.appendStep(assertSave, 'Save again');
+    await generator.finish();
+
+    const code = await generator.getCode();
+    expect(() => new AsyncFunction('page', 'expect', code)).not.toThrow();
+  });
+
+  test('wraps a step in test.step only when a thought is given', () => {
+    expect(renderTestStepBlock("await page.goto('/');")).toBe("  await page.goto('/');");
+    expect(renderTestStepBlock("await page.goto('/');", "Open the user's page")).toBe(
+      "\n  await test.step('Open the user\\'s page', async () => {\n    await page.goto('/');\n  });"
+    );
+  });
+
+  test('renders test.use on one line for a single option', () => {
+    expect(renderTestUse({ storageState: '.auth/user.json' })).toBe(
+      "test.use({ storageState: '.auth/user.json' });"
+    );
+    expect(renderTestUse({})).toBeNull();
+  });
+
+  test('renders test.use with a device and overrides', () => {
+    expect(
+      renderTestUse({
+        browser: 'webkit',
+        emulation: { device: 'iPhone 13', geolocation: { latitude: 35.68, longitude: 139.76 } },
+      })
+    ).toBe(`test.use({
+  ...devices['iPhone 13'],
+  browserName: 'webkit',
+  geolocation: { latitude: 35.68, longitude: 139.76 },
+  permissions: ['geolocation'],
+});`);
+  });
+});
+
+test.describe('Python codegen', () => {
+  test('renders locators with snake_case methods and keyword options', () => {
+    expect(renderPythonLocator(emailInput)).toBe('page.get_by_label("Email", exact=True)');
+  });
+
+  test('renders secrets as require_env calls', () => {
+    const code = renderPythonStep({
+      actionType: 'fill',
+      locator: emailInput,
+      value: 'user-{{secret:USER}}',
+    });
+    expect(code).toBe('page.get_by_label("Email", exact=True).fill("user-" + require_env("USER"))');
+    expect(renderPythonRequireEnvHelper()).toContain(
+      'raise RuntimeError(f"Missing environment variable: {name}")'
+    );
+  });
+
+  test('renders browser_context_args only when options are set', () => {
+    expect(renderPythonContextArgs({})).toBeNull();
+    expect(renderPythonContextArgs({ storageState: '.auth/user.json' })).toContain(
+      '"storage_state": ".auth/user.json"'
+    );
+  });
+});
+
+test.describe('Generators', () => {
+  // FlashLoop は CLI モードで開始URLへの遷移を最初のステップとして記録する
+  const startStep: CodeStep = {
+    actionType: 'navigate',
+    value: 'https://example.com/start',
+    url: 'https://example.com/start',
+  };
+  const clickSave: CodeStep = {
+    actionType: 'click',
+    locator: saveButton,
+    url: 'https://example.com/start',
+  };
+  const outputs: Record<CodegenTarget, string> = {
+    typescript: 'start.spec.ts',
+    python: 'test_start.py',
+    json: 'start.json',
+    pom: 'pom',
+  };
+
+  for (const [target, output] of Object.entries(outputs) as Array<[CodegenTarget, string]>) {
+    test(`${target} replays the start URL navigation before the first action`, async () => {
+      const generator = createGenerator(target, { outputPath: test.info().outputPath(output) });
+      await generator.init('Update the profile');
+      await generator.appendStep(startStep);
+      await generator.appendStep(clickSave);
+      await generator.finish();
+
+      const code = await generator.getCode();
+      expect(code).toContain('https://example.com/start');
+      expect(code.indexOf('https://example.com/start')).toBeLessThan(code.search(/save/i));
+    });
+  }
+});
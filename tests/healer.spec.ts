@@ -0,0 +1,188 @@
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { test, expect } from '@playwright/test';
+import { chromium } from 'playwright';
+import { SpecHealer, parseSpec, parseTestUse } from '../src/core/healer';
+import { renderTestStepBlock, renderTypeScriptStep } from '../src/tools/codegen/typescript';
+import { ILogger } from '../src/tools/logger';
+
+const silentLogger: ILogger = {
+  start: () => {},
+  stop: () => {},
+  info: () => {},
+  success: () => {},
+  fail: () => {},
+  error: () => {},
+  action: () => {},
+  thought: () => {},
+};
+
+const saveButton = [{ method: 'getByRole', args: ['button', { name: 'Save' }] }];
+
+function renderSpec(body: string[]): string {
+  return `import { test, expect } from '@playwright/test';
+
+test('FlashLoop Auto-Generated Test', async ({ page }) => {
+  test.setTimeout(120000);
+${body.join('\n')}
+});
+`;
+}
+
+const responseSpec = renderSpec([
+  renderTestStepBlock(
+    renderTypeScriptStep({
+      actionType: 'assert_response',
+      locator: saveButton,
+      response: { urlIncludes: '/api/save', method: 'post', status: 200, bodyIncludes: 'saved' },
+    }),
+    'Save and check the API call'
+  ),
+  renderTestStepBlock(
+    renderTypeScriptStep({
+      actionType: 'extract',
+      locator: [{ method: 'locator', args: ['body'] }],
+    }),
+    'Read the result'
+  ),
+]);
+
+test.describe('parseSpec', () => {
+  test('keeps a test.step body as one unit so its variables stay in scope', () => {
+    const spec = parseSpec(responseSpec.split('\n'));
+
+    expect(spec.tests).toHaveLength(1);
+    const [saveStep, extractStep] = spec.tests[0].statements;
+    expect(saveStep.stepTitle).toBe('Save and check the API call');
+    expect(saveStep.code).toContain('const [response] = await Promise.all([');
+    expect(saveStep.code).toContain('expect(response.status()).toBe(200);');
+    expect(extractStep.code).toContain('test.info().attach');
+  });
+
+  test('splits a flat test body into statements', () => {
+    const lines = renderSpec([
+      "  await page.goto('https://example.com');",
+      "  await page.getByRole('link', {",
+      "    name: 'More',",
+      '  }).click();',
+    ]).split('\n');
+
+    const statements = parseSpec(lines).tests[0].statements;
+    expect(statements.map((s) => [s.startLine, s.endLine])).toEqual([
+      [4, 4],
+      [5, 7],
+    ]);
+  });
+
+  test('collects beforeEach and every runnable test of a suite', () => {
+    const lines = `import { test, expect } from '@playwright/test';
+
+test.describe('shop', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/login');
+  });
+
+  test('cart', async ({ page }) => {
+    await page.goto('/cart');
+  });
+
+  test.fixme('broken', async ({ page }) => {
+    await page.goto('/broken');
+  });
+
+  test('it\\'s done', async ({ page }) => {
+    await page.goto('/done');
+  });
+});
+`.split('\n');
+
+    const spec = parseSpec(lines);
+    expect(spec.beforeEach.map((s) => s.code.trim())).toEqual(["await page.goto('/login');"]);
+    expect(spec.tests.map((t) => t.title)).toEqual(['cart', "it's done"]);
+    expect(spec.tests[1].statements[0].code.trim()).toBe("await page.goto('/done');");
+  });
+
+  test('throws when the spec has no test body', () => {
+    expect(() => parseSpec(['// empty'])).toThrow('No test body');
+  });
+});
+
+test.describe('parseTestUse', () => {
+  test('defaults to chromium without test.use', () => {
+    expect(parseTestUse(responseSpec.split('\n'))).toEqual({
+      browserName: 'chromium',
+      contextOptions: {},
+    });
+  });
+
+  test('uses the device engine and context options', () => {
+    const lines = [
+      "import { test, expect, devices } from '@playwright/test';",
+      '',
+      'test.use({',
+      "  ...devices['iPhone 13'],",
+      "  locale: 'ja-JP',",
+      "  storageState: '.auth/user.json',",
+      '});',
+    ];
+
+    const { browserName, contextOptions } = parseTestUse(lines);
+    expect(browserName).toBe('webkit');
+    expect(contextOptions).toMatchObject({
+      isMobile: true,
+      locale: 'ja-JP',
+      storageState: '.auth/user.json',
+    });
+    expect(contextOptions).not.toHaveProperty('defaultBrowserType');
+  });
+
+  test('prefers an explicit browserName', () => {
+    const lines = ["test.use({ ...devices['Desktop Chrome'], browserName: 'firefox' });"];
+    expect(parseTestUse(lines).browserName).toBe('firefox');
+  });
+});
+
+test.describe('SpecHealer', () => {
+  test.skip(!fs.existsSync(chromium.executablePath()), 'Chromium is not installed');
+
+  let server: http.Server;
+  let baseURL: string;
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/api/save') {
+        res.end('saved');
+        return;
+      }
+      res.setHeader('Content-Type', 'text/html');
+      res.end(
+        `<button onclick="fetch('/api/save', { method: 'POST' }).then((r) => r.text()).then((t) => document.body.append(t))">Save</button>`
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('replays a spec with a response assertion and an extract step', async () => {
+    const specPath = test.info().outputPath('response.spec.ts');
+    fs.writeFileSync(specPath, responseSpec);
+
+    const healer = new SpecHealer({
+      startUrl: baseURL,
+      headless: true,
+      dryRun: true,
+      llm: { provider: 'ollama' },
+      logger: silentLogger,
+    });
+    const result = await healer.heal(specPath);
+
+    expect(result.failure).toBeUndefined();
+    expect(result.passed).toBe(true);
+    expect(result.rewrites).toEqual([]);
+  });
+});
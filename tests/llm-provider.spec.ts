@@ -0,0 +1,71 @@
+import { test, expect } from '@playwright/test';
+import { getMissingApiKeyMessage, resolveLLMConfig } from '../src/core/llm-provider';
+
+const ENV_NAMES = [
+  'LLM_PROVIDER',
+  'LLM_API_KEY',
+  'LLM_MODEL_NAME',
+  'LLM_BASE_URL',
+  'CEREBRAS_API_KEY',
+  'OPENAI_API_KEY',
+  'OPENAI_MODEL',
+  'OPENAI_BASE_URL',
+  'OPENAI_COMPATIBLE_MODEL',
+  'OPENAI_COMPATIBLE_BASE_URL',
+];
+
+test.describe('resolveLLMConfig', () => {
+  const saved: Record<string, string | undefined> = {};
+
+  test.beforeEach(() => {
+    for (const name of ENV_NAMES) {
+      saved[name] = process.env[name];
+      delete process.env[name];
+    }
+  });
+
+  test.afterEach(() => {
+    for (const name of ENV_NAMES) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  test('applies the generic env variables to the LLM_PROVIDER provider', () => {
+    process.env.LLM_PROVIDER = 'openai';
+    process.env.LLM_API_KEY = 'sk-generic';
+    process.env.LLM_MODEL_NAME = 'gpt-4o';
+
+    expect(resolveLLMConfig()).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o',
+      apiKey: 'sk-generic',
+    });
+  });
+
+  test('does not send the generic key to a provider chosen with --provider', () => {
+    process.env.LLM_PROVIDER = 'openai';
+    process.env.LLM_API_KEY = 'sk-generic';
+    process.env.LLM_MODEL_NAME = 'gpt-4o';
+
+    const config = resolveLLMConfig({
+      provider: 'openai-compatible',
+      baseURL: 'http://third-party.example/v1',
+    });
+
+    expect(config.apiKey).toBeUndefined();
+    expect(config.model).not.toBe('gpt-4o');
+    expect(config.baseURL).toBe('http://third-party.example/v1');
+  });
+
+  test('names only the env variables that apply in the missing key message', () => {
+    process.env.LLM_PROVIDER = 'cerebras';
+
+    expect(getMissingApiKeyMessage(resolveLLMConfig())).toContain(
+      'CEREBRAS_API_KEY or LLM_API_KEY is not set'
+    );
+    expect(getMissingApiKeyMessage(resolveLLMConfig({ provider: 'openai' }))).toContain(
+      'OPENAI_API_KEY is not set'
+    );
+  });
+});
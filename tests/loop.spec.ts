@@ -0,0 +1,165 @@
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { test, expect } from '@playwright/test';
+import { chromium } from 'playwright';
+import { FlashLoop } from '../src/core/loop';
+import { CassetteFile } from '../src/core/cassette';
+import { ILogger } from '../src/tools/logger';
+import { JsonStepFile } from '../src/tools/json-generator';
+import { TRACE_FILE_NAME } from '../src/tools/tracer';
+import { ActionPlan, FlashLoopOptions } from '../src/types';
+
+const silentLogger: ILogger = {
+  start: () => {},
+  stop: () => {},
+  info: () => {},
+  success: () => {},
+  fail: () => {},
+  error: () => {},
+  action: () => {},
+  thought: () => {},
+};
+
+const finish: ActionPlan = { thought: 'Done', actionType: 'finish', isFinished: true };
+
+/**
+ * 記録したプランを順に返すカセットを書き出す (観測状態の比較は行わない)
+ */
+function writeCassette(plans: ActionPlan[]): string {
+  const cassette: CassetteFile = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    entries: plans.map((plan, i) => ({
+      step: i + 1,
+      input: { goal: '', state: '', history: [] },
+      plan,
+    })),
+  };
+  const filePath = test.info().outputPath('cassette.json');
+  fs.writeFileSync(filePath, JSON.stringify(cassette));
+  return filePath;
+}
+
+test.describe('FlashLoop', () => {
+  test.skip(!fs.existsSync(chromium.executablePath()), 'Chromium is not installed');
+
+  let server: http.Server;
+  let baseURL: string;
+
+  test.beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.setHeader('Content-Type', 'text/html');
+      res.end(`<title>${req.url}</title><button>Save</button>`);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function options(
+    plans: ActionPlan[],
+    overrides: Partial<FlashLoopOptions> = {}
+  ): FlashLoopOptions {
+    return {
+      startUrl: baseURL,
+      headless: true,
+      maxSteps: 5,
+      cassette: { mode: 'replay', path: writeCassette(plans) },
+      codegenTarget: 'json',
+      outputPath: test.info().outputPath('generated.json'),
+      logger: silentLogger,
+      ...overrides,
+    };
+  }
+
+  test('masks a secret in a navigate URL in the result and the trace', async () => {
+    const traceDir = test.info().outputPath('traces');
+    const loop = new FlashLoop(
+      options(
+        [
+          {
+            thought: 'Open the account page',
+            actionType: 'navigate',
+            value: `${baseURL}account?token={{secret:TOKEN}}`,
+            isFinished: false,
+          },
+          finish,
+        ],
+        { secrets: { values: { TOKEN: 'top secret' } }, trace: { dir: traceDir } }
+      )
+    );
+    const result = await loop.start('Open the account page');
+
+    expect(result.status).toBe('success');
+    expect(result.finalUrl).toBe(`${baseURL}account?token={{secret:TOKEN}}`);
+    expect(result.steps[1].url).toBe(`${baseURL}account?token={{secret:TOKEN}}`);
+
+    const [runDir] = fs.readdirSync(traceDir);
+    const trace = fs.readFileSync(path.join(traceDir, runDir, TRACE_FILE_NAME), 'utf-8');
+    for (const text of [JSON.stringify(result), trace]) {
+      expect(text).not.toContain('top secret');
+      expect(text).not.toContain('top%20secret');
+    }
+  });
+
+  test('returns an error result and closes the context when the brain fails', async () => {
+    const browser = await chromium.launch();
+    try {
+      const loop = new FlashLoop(options([], { sharedBrowser: browser }));
+      const result = await loop.start('Save the form');
+
+      expect(result.status).toBe('error');
+      expect(result.reason).toContain('Cassette exhausted');
+      expect(result.stepCount).toBe(1);
+      expect(browser.contexts()).toHaveLength(0);
+    } finally {
+      await browser.close();
+    }
+  });
+
+  test('records the start URL navigation as the first generated step in CLI mode', async () => {
+    const result = await new FlashLoop(options([finish])).start('Open the page');
+    const steps = (JSON.parse(result.code) as JsonStepFile).steps;
+
+    expect(steps).toEqual([{ actionType: 'navigate', value: baseURL, url: baseURL }]);
+  });
+
+  test('does not record a navigation for the caller page in library mode', async () => {
+    const browser = await chromium.launch();
+    try {
+      const page = await browser.newPage();
+      await page.goto(baseURL);
+      const result = await new FlashLoop({
+        page,
+        cassette: { mode: 'replay', path: writeCassette([finish]) },
+        logger: silentLogger,
+      }).start('Open the page');
+
+      expect(result.code).not.toContain('page.goto');
+    } finally {
+      await browser.close();
+    }
+  });
+});
+
+test.describe('FlashLoop safety policy', () => {
+  test('rejects a start URL outside the allowed URLs before launching the browser', async () => {
+    const loop = new FlashLoop({
+      startUrl: 'https://evil.example/',
+      policy: { allowedUrls: ['https://staging.example.com/*'] },
+      llm: { provider: 'ollama' },
+      codegenTarget: 'json',
+      outputPath: test.info().outputPath('generated.json'),
+      logger: silentLogger,
+    });
+
+    await expect(loop.start('Open the dashboard')).rejects.toThrow(
+      'Safety policy: Blocked the start URL: the URL "https://evil.example/" is outside the allowed URLs (https://staging.example.com/*).'
+    );
+  });
+});
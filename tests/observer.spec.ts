@@ -0,0 +1,95 @@
+import * as fs from 'node:fs';
+import { test, expect } from '@playwright/test';
+import { chromium } from 'playwright';
+import { Observer, ObservedSnapshot, diffSnapshots } from '../src/core/observer';
+
+function snapshot(entries: Array<[string, string]>, texts: string[] = []): ObservedSnapshot {
+  return { url: 'https://example.com/', entries: new Map(entries), texts };
+}
+
+const form: Array<[string, string]> = [
+  ['textbox-a1-1', 'textbox "Name" [ID: textbox-a1-1]'],
+  ['textbox-b2-1', 'textbox "Email" [ID: textbox-b2-1]'],
+  ['button-c3-1', 'button "Save" [ID: button-c3-1]'],
+  ['link-d4-1', 'link "Help" [ID: link-d4-1]'],
+];
+
+test.describe('diffSnapshots', () => {
+  test('reports added, changed and removed elements by ID', () => {
+    const texts = ['heading "Profile"', 'text: Name', 'text: Email', 'text: Footer'];
+    const diff = diffSnapshots(
+      snapshot(form, texts),
+      snapshot(
+        [
+          ['textbox-a1-1', 'textbox "Name" [ID: textbox-a1-1]: Alice'],
+          ...form.slice(1, 3),
+          ['link-e5-1', 'link "Profile" [ID: link-e5-1]'],
+        ],
+        texts
+      )
+    );
+
+    expect(diff).toEqual({
+      changes: [
+        '+ link "Profile" [ID: link-e5-1]',
+        '~ textbox "Name" [ID: textbox-a1-1]: Alice',
+        '- link "Help" [ID: link-d4-1]',
+      ],
+      unchangedIds: ['textbox-b2-1', 'button-c3-1'],
+    });
+  });
+
+  test('includes text lines without an ID', () => {
+    const diff = diffSnapshots(
+      snapshot(form, ['heading "Profile"', 'text: Email is required']),
+      snapshot(form, ['heading "Profile"', 'status: Saved!'])
+    );
+
+    expect(diff?.changes).toEqual(['+ status: Saved!', '- text: Email is required']);
+    expect(diff?.unchangedIds).toHaveLength(form.length);
+  });
+
+  test('compares repeated text lines by count', () => {
+    const diff = diffSnapshots(
+      snapshot(form, ['text: Item', 'text: Item']),
+      snapshot(form, ['text: Item'])
+    );
+    expect(diff?.changes).toEqual(['- text: Item']);
+  });
+
+  test('reports no changes for identical observations', () => {
+    expect(diffSnapshots(snapshot(form, ['text: Hi']), snapshot(form, ['text: Hi']))).toEqual({
+      changes: [],
+      unchangedIds: form.map(([id]) => id),
+    });
+  });
+
+  test('gives up when more than half of the observation changed', () => {
+    expect(diffSnapshots(snapshot(form), snapshot(form.slice(0, 1)))).toBeNull();
+  });
+});
+
+test.describe('Observer', () => {
+  test.skip(!fs.existsSync(chromium.executablePath()), 'Chromium is not installed');
+
+  test('shows the next element page in incremental mode', async () => {
+    const browser = await chromium.launch();
+    try {
+      const page = await browser.newPage();
+      const buttons = Array.from({ length: 40 }, (_, i) => `<button>Action ${i + 1}</button>`);
+      await page.setContent(buttons.join(''));
+
+      const observer = new Observer({}, { incremental: true, tokenBudget: 60 });
+      const ranking = { goal: 'Press Action 1', hints: [] };
+      const first = await observer.captureState(page, { ranking });
+      expect(first.stateText).toContain('(page 1/');
+
+      const next = await observer.captureState(page, { ranking: { ...ranking, page: 1 } });
+      expect(next.isIncremental).toBeUndefined();
+      expect(next.stateText).toContain('(page 2/');
+      expect(next.stateText).not.toContain('(No changes)');
+    } finally {
+      await browser.close();
+    }
+  });
+});
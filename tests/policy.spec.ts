@@ -0,0 +1,147 @@
+import * as path from 'node:path';
+import { test, expect } from '@playwright/test';
+import { SafetyPolicy } from '../src/core/policy';
+import { ActionPlan, ElementContainer } from '../src/types';
+
+function element(id: string, description: string, role = 'button'): ElementContainer {
+  return {
+    id,
+    description,
+    tagName: 'button',
+    selectors: { role: { role, name: description } },
+  } as unknown as ElementContainer;
+}
+
+function plan(fields: Partial<ActionPlan>): ActionPlan {
+  return { thought: '', actionType: 'click', isFinished: false, ...fields } as ActionPlan;
+}
+
+const elementMap = new Map([
+  ['button-1', element('button-1', 'Delete account')],
+  ['button-2', element('button-2', 'Save profile')],
+  ['link-1', element('link-1', 'Delete account help', 'link')],
+]);
+const currentUrl = 'https://staging.example.com/settings';
+
+test.describe('SafetyPolicy.check', () => {
+  test('allows everything without a policy', async () => {
+    const policy = new SafetyPolicy();
+    expect(await policy.check(plan({ targetId: 'button-1' }), elementMap, currentUrl)).toBeNull();
+  });
+
+  test('blocks disallowed action types', async () => {
+    const policy = new SafetyPolicy({ disallowedActions: ['upload'] });
+    expect(
+      await policy.check(plan({ actionType: 'upload', value: 'a.png' }), elementMap, currentUrl)
+    ).toBe('Blocked upload: the action type "upload" is not allowed.');
+  });
+
+  test('checks navigation against the allowed URLs, resolving relative URLs', async () => {
+    const policy = new SafetyPolicy({ allowedUrls: ['https://staging.example.com/*'] });
+    const navigate = (value: string) => plan({ actionType: 'navigate', value });
+
+    expect(await policy.check(navigate('/profile'), elementMap, currentUrl)).toBeNull();
+    expect(await policy.check(navigate('https://example.com/'), elementMap, currentUrl)).toBe(
+      'Blocked navigate to "https://example.com/": the URL "https://example.com/" is outside the allowed URLs (https://staging.example.com/*).'
+    );
+    expect(policy.checkPage('about:blank')).toBeNull();
+  });
+
+  test('only allows uploads from the allowed paths', async () => {
+    const policy = new SafetyPolicy({ allowedUploadPaths: ['./fixtures'] });
+    const upload = (value: string) => plan({ actionType: 'upload', value, targetId: 'button-2' });
+
+    expect(
+      await policy.check(upload('fixtures/a.png, fixtures/b.png'), elementMap, currentUrl)
+    ).toBeNull();
+    expect(await policy.check(upload('fixtures-evil/a.png'), elementMap, currentUrl)).toBe(
+      `Blocked upload of "${path.resolve('fixtures-evil/a.png')}": the file is outside the allowed paths (./fixtures).`
+    );
+  });
+
+  test('matches rules by keyword, role and action type', async () => {
+    const policy = new SafetyPolicy({
+      rules: [{ keywords: ['DELETE'], roles: ['button'], actionTypes: ['click'], effect: 'block' }],
+    });
+
+    expect(await policy.check(plan({ targetId: 'button-1' }), elementMap, currentUrl)).toBe(
+      'Blocked click on "Delete account": it matches a protected element rule.'
+    );
+    expect(await policy.check(plan({ targetId: 'link-1' }), elementMap, currentUrl)).toBeNull();
+    expect(
+      await policy.check(
+        plan({ actionType: 'hover', targetId: 'button-1' }),
+        elementMap,
+        currentUrl
+      )
+    ).toBeNull();
+  });
+
+  test('treats response actions with a trigger element as clicks', async () => {
+    const policy = new SafetyPolicy({
+      rules: [
+        {
+          keywords: ['delete'],
+          actionTypes: ['click'],
+          effect: 'block',
+          reason: 'Deletion is irreversible.',
+        },
+      ],
+    });
+    const response = { urlIncludes: '/api/account' };
+
+    expect(
+      await policy.check(
+        plan({ actionType: 'assert_response', targetId: 'button-1', response }),
+        elementMap,
+        currentUrl
+      )
+    ).toBe('Blocked assert_response on "Delete account": Deletion is irreversible.');
+    expect(
+      await policy.check(
+        plan({ actionType: 'wait_for_response', response }),
+        elementMap,
+        currentUrl
+      )
+    ).toBeNull();
+    expect(
+      await new SafetyPolicy({ disallowedActions: ['click'] }).check(
+        plan({ actionType: 'wait_for_response', targetId: 'button-2', response }),
+        elementMap,
+        currentUrl
+      )
+    ).toBe('Blocked wait_for_response: the action type "click" is not allowed.');
+  });
+
+  test('asks for confirmation and blocks when rejected or unavailable', async () => {
+    const rules = [{ keywords: ['save'], effect: 'confirm' as const }];
+    const messages: string[] = [];
+    const rejecting = new SafetyPolicy({ rules }, async (message) => {
+      messages.push(message);
+      return false;
+    });
+
+    expect(await rejecting.check(plan({ targetId: 'button-2' }), elementMap, currentUrl)).toBe(
+      'Blocked click on "Save profile": it matches a protected element rule. The user rejected the action.'
+    );
+    expect(messages).toEqual([
+      'click on "Save profile": it matches a protected element rule. Allow this action?',
+    ]);
+    expect(
+      await new SafetyPolicy({ rules }, async () => true).check(
+        plan({ targetId: 'button-2' }),
+        elementMap,
+        currentUrl
+      )
+    ).toBeNull();
+    expect(
+      await new SafetyPolicy({ rules }).check(
+        plan({ targetId: 'button-2' }),
+        elementMap,
+        currentUrl
+      )
+    ).toBe(
+      'Blocked click on "Save profile": it matches a protected element rule. Confirmation is required, but not available in this run.'
+    );
+  });
+});
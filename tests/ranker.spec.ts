@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { AriaNode, parseAriaSnapshot } from '../src/core/aria-snapshot';
+import { StateLine, fitStateToBudget } from '../src/core/ranker';
+import { ElementContainer } from '../src/types';
+
+const TARGET_ROLES = new Set(['button', 'link', 'textbox']);
+
+/**
+ * ARIA モードの観測と同じ形の行 (操作対象のロールに ID を振る) と要素マップを作る
+ */
+function stateFromSnapshot(snapshot: string): {
+  lines: StateLine[];
+  elements: Map<string, ElementContainer>;
+} {
+  const lines: StateLine[] = [];
+  const elements = new Map<string, ElementContainer>();
+  const visit = (node: AriaNode, indent: string, parent?: number) => {
+    let text = `${indent}- ${node.role}`;
+    let id: string | undefined;
+    if (node.name) text += ` "${node.name}"`;
+    if (TARGET_ROLES.has(node.role)) {
+      id = `${node.role}-${elements.size + 1}`;
+      elements.set(id, {
+        id,
+        description: node.name ?? '',
+        tagName: node.role,
+        isInViewport: true,
+        selectors: { role: { role: node.role, name: node.name } },
+      } as unknown as ElementContainer);
+      text += ` [ID: ${id}]`;
+    }
+    if (node.text) text += `: ${node.text}`;
+    const index = lines.length;
+    lines.push({ text, id, parent });
+    for (const child of node.children) visit(child, `${indent}  `, index);
+  };
+  for (const root of parseAriaSnapshot(snapshot)) visit(root, '');
+  return { lines, elements };
+}
+
+const links = Array.from({ length: 30 }, (_, i) => `  - link "Report ${i + 1}"`).join('\n');
+const snapshot = `- navigation:
+${links}
+- main:
+  - heading "Sign in" [level=1]
+  - textbox "Email"
+  - button "Sign in"
+  - alert:
+    - text: Email is required
+  - paragraph: Terms of service apply.`;
+
+test.describe('fitStateToBudget', () => {
+  test('returns every line within the budget', () => {
+    const { lines, elements } = stateFromSnapshot(snapshot);
+    const state = fitStateToBudget(lines, elements, { goal: 'Sign in', hints: [] }, 10000);
+
+    expect(state.lines).toEqual(lines.map((line) => line.text));
+    expect(state.summary).toBeNull();
+  });
+
+  test('keeps feedback text lines without IDs and their ancestors', () => {
+    const { lines, elements } = stateFromSnapshot(snapshot);
+    const state = fitStateToBudget(lines, elements, { goal: 'Sign in', hints: [] }, 60);
+
+    expect(state.lines).toContain('  - textbox "Email" [ID: textbox-31]');
+    expect(state.lines).toContain('  - button "Sign in" [ID: button-32]');
+    expect(state.lines).toContain('  - alert');
+    expect(state.lines).toContain('    - text: Email is required');
+    expect(state.lines).toContain('- main');
+  });
+
+  test('counts text lines in the summary and collapses them like elements', () => {
+    const { lines, elements } = stateFromSnapshot(snapshot);
+    const first = fitStateToBudget(lines, elements, { goal: 'Sign in', hints: [] }, 60);
+
+    expect(first.summary).toMatch(/^Showing \d+ of 32 elements and \d+ of 3 text lines \(page 1\//);
+    expect(first.summary).toContain("Use actionType 'more_elements' to see the next page.");
+
+    const pageCount = Number(first.summary?.match(/\(page 1\/(\d+)/)?.[1]);
+    const pages = Array.from(
+      { length: pageCount },
+      (_, page) => fitStateToBudget(lines, elements, { goal: 'Sign in', hints: [], page }, 60).lines
+    );
+    const shown = new Set(pages.flat());
+    expect(shown).toContain('  - paragraph: Terms of service apply.');
+    expect(shown).toContain('  - link "Report 30" [ID: link-30]');
+  });
+});
@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import { SecretStore } from '../src/core/secrets';
+
+test.describe('SecretStore', () => {
+  test('resolves placeholders and masks the revealed values', () => {
+    const secrets = new SecretStore({ values: { PASSWORD: 'hunter2' } });
+
+    expect(secrets.resolve('{{secret:PASSWORD}}')).toBe('hunter2');
+    expect(secrets.mask('Typed hunter2 into the field')).toBe(
+      'Typed {{secret:PASSWORD}} into the field'
+    );
+  });
+
+  test('masks a secret in a navigate URL, including its encoded form', () => {
+    const secrets = new SecretStore({ values: { TOKEN: 'a b/c&d' } });
+    const url = secrets.resolve('https://example.com/login?token={{secret:TOKEN}}');
+
+    expect(secrets.mask(url)).toBe('https://example.com/login?token={{secret:TOKEN}}');
+    expect(secrets.mask(new URL(url).href)).toBe(
+      'https://example.com/login?token={{secret:TOKEN}}'
+    );
+    expect(secrets.mask(`https://example.com/?token=${encodeURIComponent('a b/c&d')}`)).toBe(
+      'https://example.com/?token={{secret:TOKEN}}'
+    );
+  });
+
+  test('reports undefined secrets', () => {
+    expect(() => new SecretStore().resolve('{{secret:FLASH_LOOP_UNDEFINED}}')).toThrow(
+      /Secret "FLASH_LOOP_UNDEFINED" is not defined/
+    );
+  });
+});
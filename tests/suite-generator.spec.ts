@@ -0,0 +1,208 @@
+import * as fs from 'node:fs';
+import { test, expect } from '@playwright/test';
+import { SuiteGenerator } from '../src/tools/suite-generator';
+import { GeneratorOptions } from '../src/tools/generator';
+import { CodeStep } from '../src/types';
+
+const openHome: CodeStep = { actionType: 'navigate', value: 'https://example.com/' };
+const openLogin: CodeStep = {
+  actionType: 'click',
+  locator: [{ method: 'getByRole', args: ['link', { name: 'Log in' }] }],
+};
+const clickSave: CodeStep = {
+  actionType: 'click',
+  locator: [{ method: 'getByRole', args: ['button', { name: 'Save' }] }],
+};
+const clickCancel: CodeStep = {
+  actionType: 'click',
+  locator: [{ method: 'getByRole', args: ['button', { name: 'Cancel' }] }],
+};
+
+async function writeSuite(
+  filePath: string,
+  tests: Array<{ title: string; steps: CodeStep[] }>,
+  options: { append?: boolean; generator?: GeneratorOptions } = {}
+): Promise<string> {
+  const suite = new SuiteGenerator(filePath, { append: options.append });
+  for (const { title, steps } of tests) {
+    const generator = suite.createTest(title, options.generator ?? {});
+    await generator.init(title);
+    for (const step of steps) await generator.appendStep(step);
+  }
+  await suite.write();
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+function countOf(code: string, text: string): number {
+  return code.split(text).length - 1;
+}
+
+test.describe('SuiteGenerator', () => {
+  test('lifts the steps shared by every test into beforeEach', async () => {
+    const code = await writeSuite(test.info().outputPath('shared.spec.ts'), [
+      { title: 'save', steps: [openHome, openLogin, clickSave] },
+      { title: 'cancel', steps: [openHome, openLogin, clickCancel] },
+    ]);
+
+    expect(code).toContain("test.describe('shared', () => {");
+    expect(code).toContain('  test.beforeEach(async ({ page }) => {');
+    expect(countOf(code, "await page.goto('https://example.com/');")).toBe(1);
+    expect(countOf(code, "name: 'Log in'")).toBe(1);
+    expect(countOf(code, "name: 'Save'")).toBe(1);
+    expect(countOf(code, "name: 'Cancel'")).toBe(1);
+  });
+
+  test('keeps at least one step in each test', async () => {
+    const code = await writeSuite(test.info().outputPath('same.spec.ts'), [
+      { title: 'first', steps: [openHome, clickSave] },
+      { title: 'second', steps: [openHome, clickSave] },
+    ]);
+
+    expect(countOf(code, "await page.goto('https://example.com/');")).toBe(1);
+    expect(countOf(code, "name: 'Save'")).toBe(2);
+  });
+
+  test('does not add beforeEach when the first steps differ', async () => {
+    const code = await writeSuite(test.info().outputPath('different.spec.ts'), [
+      { title: 'save', steps: [openHome, clickSave] },
+      { title: 'login', steps: [openLogin, clickCancel] },
+    ]);
+
+    expect(code).not.toContain('beforeEach');
+  });
+
+  test('gives duplicate titles a suffix', async () => {
+    const code = await writeSuite(test.info().outputPath('titles.spec.ts'), [
+      { title: 'save', steps: [openHome, clickSave] },
+      { title: 'save', steps: [openHome, clickCancel] },
+    ]);
+
+    expect(code).toContain("test('save', async ({ page }) => {");
+    expect(code).toContain("test('save (2)', async ({ page }) => {");
+  });
+
+  test('rejects tests with different browsers', () => {
+    const suite = new SuiteGenerator(test.info().outputPath('browsers.spec.ts'));
+    suite.createTest('chromium', {});
+    expect(() => suite.createTest('firefox', { browser: 'firefox' })).toThrow(
+      /uses a different browser/
+    );
+  });
+});
+
+test.describe('SuiteGenerator append', () => {
+  test('adds matching tests inside the describe after the lifted steps', async () => {
+    const filePath = test.info().outputPath('append.spec.ts');
+    await writeSuite(filePath, [
+      { title: 'save', steps: [openHome, openLogin, clickSave] },
+      { title: 'cancel', steps: [openHome, openLogin, clickCancel] },
+    ]);
+    const code = await writeSuite(
+      filePath,
+      [{ title: 'save', steps: [openHome, openLogin, clickCancel] }],
+      { append: true }
+    );
+
+    expect(code).toContain("  test('save (2)', async ({ page }) => {");
+    expect(countOf(code, "name: 'Log in'")).toBe(1);
+    expect(code.trimEnd().endsWith('});')).toBe(true);
+    expect(code.indexOf("test('save (2)'")).toBeLessThan(code.lastIndexOf('\n});'));
+  });
+
+  test('adds tests that do not match beforeEach outside the describe', async () => {
+    const filePath = test.info().outputPath('mismatch.spec.ts');
+    await writeSuite(filePath, [
+      { title: 'save', steps: [openHome, openLogin, clickSave] },
+      { title: 'cancel', steps: [openHome, openLogin, clickCancel] },
+    ]);
+    const code = await writeSuite(filePath, [{ title: 'login', steps: [openLogin, clickSave] }], {
+      append: true,
+    });
+
+    const describeEnd = code.indexOf('\n});');
+    expect(code.indexOf("\ntest('login', async ({ page }) => {")).toBeGreaterThan(describeEnd);
+    expect(code).toContain('  test.setTimeout(120000);');
+  });
+
+  test('appends standalone tests when the describe is not recognized', async () => {
+    const filePath = test.info().outputPath('unusual.spec.ts');
+    const source = `import { test, expect } from '@playwright/test';
+
+test.describe('unusual', () => {
+  test('template', async ({ page }) => {
+    await page.setContent(\`
+<p>not indented</p>
+\`);
+  });
+});
+`;
+    fs.writeFileSync(filePath, source);
+    const code = await writeSuite(filePath, [{ title: 'save', steps: [openHome, clickSave] }], {
+      append: true,
+    });
+
+    expect(code.startsWith(source)).toBe(true);
+    expect(code).toContain("\ntest('save', async ({ page }) => {");
+  });
+
+  test('appends standalone tests to files without a describe', async () => {
+    const filePath = test.info().outputPath('plain.spec.ts');
+    const source = `import { test } from '@playwright/test';
+
+test('existing', async ({ page }) => {
+  await page.goto('https://example.com/');
+});
+`;
+    fs.writeFileSync(filePath, source);
+    const code = await writeSuite(filePath, [{ title: 'existing', steps: [openHome] }], {
+      append: true,
+    });
+
+    expect(code).toContain("test('existing', async ({ page }) => {");
+    expect(code).toContain("\ntest('existing (2)', async ({ page }) => {");
+  });
+
+  test('rejects tests whose test.use differs from the file', async () => {
+    const filePath = test.info().outputPath('use.spec.ts');
+    await writeSuite(filePath, [{ title: 'save', steps: [openHome, clickSave] }]);
+
+    await expect(
+      writeSuite(filePath, [{ title: 'firefox', steps: [openHome] }], {
+        append: true,
+        generator: { browser: 'firefox' },
+      })
+    ).rejects.toThrow(/differs from the file's test.use/);
+  });
+
+  test('rejects files with an unterminated test.use', async () => {
+    const filePath = test.info().outputPath('broken-use.spec.ts');
+    fs.writeFileSync(filePath, "import { test } from '@playwright/test';\n\ntest.use({\n");
+
+    await expect(
+      writeSuite(filePath, [{ title: 'save', steps: [openHome] }], { append: true })
+    ).rejects.toThrow(/test.use statement could not be parsed/);
+  });
+});
+
+test.describe('SuiteTestGenerator.matchPrefix', () => {
+  test('counts the steps that match the beforeEach body, ignoring comments', async () => {
+    const suite = new SuiteGenerator(test.info().outputPath('prefix.spec.ts'));
+    const generator = suite.createTest('save', {});
+    for (const step of [openHome, openLogin, clickSave]) await generator.appendStep(step);
+
+    const hook = generator.renderPrefix(2).split('\n');
+    expect(generator.matchPrefix(hook)).toBe(2);
+    expect(generator.matchPrefix(['    // setup', '', ...hook])).toBe(2);
+    expect(generator.matchPrefix([])).toBe(0);
+    expect(generator.matchPrefix(["    await page.goto('https://example.org/');"])).toBeNull();
+  });
+
+  test('requires the setup lines to match', async () => {
+    const suite = new SuiteGenerator(test.info().outputPath('setup.spec.ts'));
+    const generator = suite.createTest('save', { testIdAttribute: 'data-qa' });
+    await generator.appendStep(openHome);
+
+    expect(generator.matchPrefix(generator.renderPrefix(1).split('\n'))).toBe(1);
+    expect(generator.matchPrefix(["    await page.goto('https://example.com/');"])).toBeNull();
+  });
+});